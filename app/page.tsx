@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useRef, useEffect } from 'react'
+import { useState, useRef, useEffect, useMemo } from 'react'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -10,7 +10,75 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Separator } from '@/components/ui/separator'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Badge } from '@/components/ui/badge'
-import { Send, Loader2, CheckCircle2, Copy, Download, HelpCircle, Play, Pause, SkipForward, Volume2, VolumeX } from 'lucide-react'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert'
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent, type ChartConfig } from '@/components/ui/chart'
+import { Bar, BarChart, CartesianGrid, ComposedChart, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts'
+import { Send, Loader2, CheckCircle2, Copy, Download, HelpCircle, Play, Pause, SkipForward, Volume2, VolumeX, AlertTriangle, Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react'
+import {
+  MODEL_CATALOG,
+  PRICING_CATALOG_VERSION,
+  DEFAULT_MODEL_ID,
+  getModelPricing,
+  type ImageResolution,
+  type ModelTier,
+  EMBEDDING_CATALOG,
+} from '@/utils/pricingCatalog'
+import {
+  DEFAULT_ESTIMATOR_STATE,
+  SIMULATION_RUNS,
+  SOLVER_VARIABLES,
+  BudgetSolver,
+  ConversationCalculator,
+  CostCalculator,
+  EffectiveRateCalculator,
+  GrowthProjectionCalculator,
+  LatencyCalculator,
+  MonteCarloSimulator,
+  RoiCalculator,
+  RoutingComparison,
+  SensitivityAnalyzer,
+  ThroughputCalculator,
+  averageTokens,
+  channelMonthlyVolume,
+  contractProvider,
+  createAgent,
+  createChannel,
+  createCustomItem,
+  createRoute,
+  createVolumeTier,
+  estimatorStateFromWorkflow,
+  monthlyTransactions,
+  primaryModelMix,
+  validateEstimate,
+  type AgentConfig,
+  type ChannelStream,
+  type HistoryStrategy,
+  type CostEstimate,
+  type CustomCostItem,
+  type EstimateIssue,
+  type EstimatorState,
+  type ModelRoute,
+  type ProjectionSettings,
+  type RoutingConfig,
+  type SolverVariable,
+  type UncertaintyRange,
+  type VolumeTier,
+  type VolumeUnit,
+  type WorkloadType,
+  type WorkflowData,
+} from '@/utils/costEngine'
+import {
+  DEFAULT_CURRENCY_SETTINGS,
+  DEFAULT_EXCHANGE_RATES,
+  EXCHANGE_RATES_AS_OF,
+  BASE_CURRENCY,
+  convertFromUsd,
+  convertToUsd,
+  formatMoney,
+  getExchangeRate,
+  type CurrencySettings,
+} from '@/utils/currency'
 
 // Types
 interface ChatMessage {
@@ -19,46 +87,18 @@ interface ChatMessage {
   timestamp: Date
 }
 
-interface WorkflowData {
-  business_problem: string
-  workflow_description: string
-  use_case_category: string
-  channels: string[]
-  complexity_tier: 'Low' | 'Medium' | 'High'
-  recommended_model: string
-  agents_required: number
-  features: {
-    rag: boolean
-    memory: boolean
-    db_queries: number
-    tool_calls: number
-    reflection: boolean
-  }
-  volume_estimates: {
-    emails_per_month: number
-    chats_per_month: number
-    docs_per_month: number
-    workflows_per_day: number
-  }
-  token_estimates: {
-    input_tokens: number
-    output_tokens: number
-    inter_agent_tokens: number
-  }
+const TIER_LABELS: Record<ModelTier, string> = {
+  budget: 'Budget',
+  standard: 'Standard',
+  premium: 'Premium',
 }
 
-interface EstimatorState {
-  transactions_per_month: number
-  input_tokens: number
-  output_tokens: number
-  inter_agent_interactions: number
-  rag_queries: number
-  db_queries: number
-  tool_calls: number
-  memory_ops: number
-  reflection_enabled: boolean
-  model_tier: 'budget' | 'standard' | 'premium'
-}
+// Select values standing in for "reuse the main model" and "the primary
+// model's provider" (Radix disallows '')
+const SAME_MODEL = 'same'
+const PRIMARY_PROVIDER = 'primary'
+
+const MODEL_PROVIDERS = Array.from(new Set(MODEL_CATALOG.map(model => model.provider)))
 
 // Example prompts
 const EXAMPLE_PROMPTS = [
@@ -439,24 +479,15 @@ Be conversational, friendly, and ask follow-up questions. Don't be robotic.`,
 }
 
 // Estimator Component
-function EstimatorTab({ initialData, onStateChange }: { initialData: WorkflowData | null; onStateChange?: (state: EstimatorState) => void }) {
-  const [state, setState] = useState<EstimatorState>({
-    transactions_per_month: initialData?.volume_estimates.workflows_per_day || 100,
-    input_tokens: initialData?.token_estimates.input_tokens || 500,
-    output_tokens: initialData?.token_estimates.output_tokens || 800,
-    inter_agent_interactions: initialData?.agents_required || 1,
-    rag_queries: initialData?.features.rag ? 5 : 0,
-    db_queries: initialData?.features.db_queries || 0,
-    tool_calls: initialData?.features.tool_calls || 0,
-    memory_ops: initialData?.features.memory ? 2 : 0,
-    reflection_enabled: initialData?.features.reflection || false,
-    model_tier: initialData?.recommended_model?.includes('GPT-4') ? 'premium' : 'standard',
-  })
+function EstimatorTab({ initialState, onStateChange }: { initialState: EstimatorState; onStateChange?: (state: EstimatorState) => void }) {
+  const [state, setState] = useState<EstimatorState>(initialState)
 
   useEffect(() => {
     onStateChange?.(state)
   }, [state, onStateChange])
 
+  const unbatchedModels = CostCalculator(state).unbatchedModels
+
   const handleSliderChange = (key: keyof EstimatorState, value: number[]) => {
     setState(prev => ({ ...prev, [key]: value[0] }))
   }
@@ -470,6 +501,8 @@ function EstimatorTab({ initialData, onStateChange }: { initialData: WorkflowDat
 
   return (
     <div className="space-y-6">
+      <FeasibilityAlerts issues={validateEstimate(state)} />
+
       {/* Model Selection */}
       <Card>
         <CardHeader>
@@ -477,68 +510,172 @@ function EstimatorTab({ initialData, onStateChange }: { initialData: WorkflowDat
         </CardHeader>
         <CardContent className="space-y-4">
           <div>
-            <label className="text-sm font-medium mb-2 block">Recommended Model Tier</label>
-            <Select value={state.model_tier} onValueChange={(val: any) => setState(prev => ({ ...prev, model_tier: val }))}>
-              <SelectTrigger className="w-full">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="budget">Budget (DeepSeek R1) - $0.50/M input</SelectItem>
-                <SelectItem value="standard">Standard (Claude Sonnet) - $3/M input</SelectItem>
-                <SelectItem value="premium">Premium (GPT-4o) - $5/M input</SelectItem>
-              </SelectContent>
-            </Select>
+            <label className="text-sm font-medium mb-2 block">Model</label>
+            <ModelSelect value={state.model_id} onChange={(val) => setState(prev => ({ ...prev, model_id: val }))} />
+            {state.routing.enabled && (
+              <p className="text-xs text-amber-700 mt-1">
+                Model routing is on, so primary calls go to the routed models instead. This model is only the baseline the mix is compared against.
+              </p>
+            )}
           </div>
+          <ModelSpecs modelId={state.model_id} />
+        </CardContent>
+      </Card>
+
+      {/* Model Routing */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Model Routing</CardTitle>
+          <CardDescription>Send most traffic to a cheap model and the rest to a stronger one, picked per request by a classifier</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <FeatureToggle
+            label="Route traffic across models"
+            enabled={state.routing.enabled}
+            onToggle={() => setState(prev => ({ ...prev, routing: { ...prev.routing, enabled: !prev.routing.enabled } }))}
+          />
+          {state.routing.enabled && (
+            <RoutingEditor routing={state.routing} onChange={(routing) => setState(prev => ({ ...prev, routing }))} />
+          )}
         </CardContent>
       </Card>
 
-      {/* Volume Section */}
+      {/* Channels Section */}
       <Card>
         <CardHeader>
-          <CardTitle className="text-lg">Volume Estimates</CardTitle>
-          <CardDescription>Adjust based on your actual usage patterns</CardDescription>
+          <CardTitle className="text-lg">Channels</CardTitle>
+          <CardDescription>
+            Each inbound stream has its own volume and token profile; the estimate sums them
+            ({Math.round(monthlyTransactions(state)).toLocaleString()} transactions/month in total)
+          </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
+          <ChannelEditor channels={state.channels} onChange={(channels) => setState(prev => ({ ...prev, channels }))} />
           <SliderInput
-            label="Transactions Per Month"
-            value={state.transactions_per_month}
-            min={10}
-            max={100000}
-            step={100}
-            onChange={(val) => handleSliderChange('transactions_per_month', [val])}
+            label="Busiest Hour Share of Daily Volume (%)"
+            value={state.peak_hour_pct}
+            min={5}
+            max={100}
+            step={1}
+            onChange={(val) => handleSliderChange('peak_hour_pct', [val])}
           />
+        </CardContent>
+      </Card>
+
+      {/* Prompt Caching */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Prompt Caching</CardTitle>
+          <CardDescription>System prompt and instructions resent unchanged on every call</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
           <SliderInput
-            label="Avg Input Tokens Per Request"
-            value={state.input_tokens}
-            min={100}
-            max={5000}
-            step={100}
-            onChange={(val) => handleSliderChange('input_tokens', [val])}
+            label="Fixed Prompt Tokens Per Request"
+            value={state.fixed_prompt_tokens}
+            min={0}
+            max={20000}
+            step={500}
+            onChange={(val) => handleSliderChange('fixed_prompt_tokens', [val])}
           />
+          {state.fixed_prompt_tokens > 0 && (
+            <SliderInput
+              label="Cache Hit Rate (%)"
+              value={state.cache_hit_pct}
+              min={0}
+              max={100}
+              step={5}
+              onChange={(val) => handleSliderChange('cache_hit_pct', [val])}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Batch Processing */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Batch Processing</CardTitle>
+          <CardDescription>Work that can wait hours for a result runs through discounted batch APIs</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
           <SliderInput
-            label="Avg Output Tokens Per Request"
-            value={state.output_tokens}
-            min={100}
-            max={5000}
-            step={100}
-            onChange={(val) => handleSliderChange('output_tokens', [val])}
+            label="Batch Eligible Share (%)"
+            value={state.batch_share_pct}
+            min={0}
+            max={100}
+            step={5}
+            onChange={(val) => handleSliderChange('batch_share_pct', [val])}
           />
+          {state.batch_share_pct > 0 && unbatchedModels.length > 0 && (
+            <p className="text-xs text-amber-700">
+              {unbatchedModels.map(model => model.name).join(', ')} {unbatchedModels.length === 1 ? 'has' : 'have'} no batch API - {unbatchedModels.length === 1 ? 'its' : 'their'} batch share is billed at realtime rates.
+            </p>
+          )}
         </CardContent>
       </Card>
 
-      {/* Agent Configuration */}
+      {/* Contract Pricing */}
       <Card>
         <CardHeader>
-          <CardTitle className="text-lg">Agent Interactions</CardTitle>
+          <CardTitle className="text-lg">Contract Pricing</CardTitle>
+          <CardDescription>Negotiated volume tiers and committed-spend terms on model usage</CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
+          <div>
+            <label className="text-sm font-medium mb-2 block">Contract Provider</label>
+            <Select
+              value={state.contract_provider || PRIMARY_PROVIDER}
+              onValueChange={(val) => setState(prev => ({ ...prev, contract_provider: val === PRIMARY_PROVIDER ? null : val }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PRIMARY_PROVIDER}>Primary model&apos;s provider ({contractProvider({ ...state, contract_provider: null })})</SelectItem>
+                {MODEL_PROVIDERS.map(provider => (
+                  <SelectItem key={provider} value={provider}>{provider}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500 mt-1">
+              Tiers and commitment apply only to {contractProvider(state)} model spend; other providers&apos; models, services and
+              third-party costs stay at list price.
+            </p>
+          </div>
+          <VolumeTierEditor
+            tiers={state.volume_tiers}
+            onChange={(volume_tiers) => setState(prev => ({ ...prev, volume_tiers }))}
+          />
           <SliderInput
-            label="Multi-Agent Interactions Per Request"
-            value={state.inter_agent_interactions}
-            min={1}
-            max={5}
+            label="Committed-Use Discount (%)"
+            value={state.commit_discount_pct}
+            min={0}
+            max={50}
             step={1}
-            onChange={(val) => handleSliderChange('inter_agent_interactions', [val])}
+            onChange={(val) => handleSliderChange('commit_discount_pct', [val])}
+          />
+          <SliderInput
+            label={`Minimum Monthly Commitment (${BASE_CURRENCY})`}
+            value={state.commit_minimum_monthly}
+            min={0}
+            max={100000}
+            step={500}
+            onChange={(val) => handleSliderChange('commit_minimum_monthly', [val])}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Agent Configuration */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Agent Pipeline</CardTitle>
+          <CardDescription>Agents run in order; each downstream agent has its own model and token profile</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <AgentPipelineEditor
+            primaryModelId={state.model_id}
+            primaryModelName={primaryModelMix(state)}
+            agents={state.agents}
+            onChange={(agents) => setState(prev => ({ ...prev, agents }))}
           />
         </CardContent>
       </Card>
@@ -635,259 +772,2068 @@ function EstimatorTab({ initialData, onStateChange }: { initialData: WorkflowDat
 
           <FeatureToggle
             label="Reflection & Safety Checks"
-            enabled={state.reflection_enabled}
+            enabled={state.reflection_passes > 0}
             onToggle={() => setState(prev => ({
               ...prev,
-              reflection_enabled: !prev.reflection_enabled
+              reflection_passes: prev.reflection_passes > 0 ? 0 : 1
             }))}
           />
+          {state.reflection_passes > 0 && (
+            <>
+              <SliderInput
+                label="Reflection Passes Per Request"
+                value={state.reflection_passes}
+                min={1}
+                max={5}
+                step={1}
+                onChange={(val) => handleSliderChange('reflection_passes', [val])}
+              />
+              <SliderInput
+                label="Critique Instruction Tokens Per Pass"
+                value={state.reflection_input_tokens}
+                min={0}
+                max={5000}
+                step={100}
+                onChange={(val) => handleSliderChange('reflection_input_tokens', [val])}
+              />
+              <SliderInput
+                label="Critique + Revision Output Tokens Per Pass"
+                value={state.reflection_output_tokens}
+                min={100}
+                max={10000}
+                step={100}
+                onChange={(val) => handleSliderChange('reflection_output_tokens', [val])}
+              />
+              <div>
+                <label className="text-sm font-medium mb-2 block">Reflection Model</label>
+                <ModelSelect
+                  value={state.reflection_model_id || SAME_MODEL}
+                  onChange={(val) => setState(prev => ({ ...prev, reflection_model_id: val === SAME_MODEL ? null : val }))}
+                  sameModelLabel={state.routing.enabled ? 'Same as main model (follows the route mix)' : 'Same as main model'}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Each pass re-sends the {Math.round(averageTokens(state).output_tokens).toLocaleString()}-token draft (volume-weighted average) plus the critique instructions.
+                </p>
+              </div>
+            </>
+          )}
         </CardContent>
       </Card>
-    </div>
-  )
-}
-
-// Slider Input Component
-function SliderInput({
-  label,
-  value,
-  min,
-  max,
-  step,
-  onChange,
-}: {
-  label: string
-  value: number
-  min: number
-  max: number
-  step: number
-  onChange: (value: number[]) => void
-}) {
-  return (
-    <div>
-      <div className="flex justify-between items-center mb-2">
-        <label className="text-sm font-medium">{label}</label>
-        <span className="text-lg font-semibold text-blue-600">{value.toLocaleString()}</span>
-      </div>
-      <Slider
-        value={[value]}
-        onValueChange={onChange}
-        min={min}
-        max={max}
-        step={step}
-        className="w-full"
-      />
-    </div>
-  )
-}
-
-// Feature Toggle Component
-function FeatureToggle({
-  label,
-  enabled,
-  onToggle,
-}: {
-  label: string
-  enabled: boolean
-  onToggle: () => void
-}) {
-  return (
-    <button
-      onClick={onToggle}
-      className={`w-full text-left p-3 rounded-lg border-2 transition-colors ${
-        enabled
-          ? 'border-blue-500 bg-blue-50'
-          : 'border-gray-200 bg-white hover:border-gray-300'
-      }`}
-    >
-      <div className="flex items-center gap-2">
-        <div className={`w-5 h-5 rounded border-2 flex items-center justify-center ${
-          enabled ? 'bg-blue-500 border-blue-500' : 'border-gray-300'
-        }`}>
-          {enabled && <CheckCircle2 className="h-3 w-3 text-white" />}
-        </div>
-        <span className="font-medium text-sm">{label}</span>
-      </div>
-    </button>
-  )
-}
-
-// Cost Calculator
-function CostCalculator(state: EstimatorState) {
-  const pricingTiers = {
-    budget: { input: 0.50, output: 1.50 },
-    standard: { input: 3, output: 9 },
-    premium: { input: 5, output: 15 },
-  }
-
-  const pricing = pricingTiers[state.model_tier]
-
-  // Calculate tokens per month
-  const totalInputTokens = state.transactions_per_month * state.input_tokens
-  const totalOutputTokens = state.transactions_per_month * state.output_tokens
-  const interAgentTokens = state.transactions_per_month * state.inter_agent_interactions * (state.input_tokens + state.output_tokens) * 0.3
-
-  // Feature overhead
-  const ragTokens = state.rag_queries * state.transactions_per_month * 200
-  const dbQueryTokens = state.db_queries * state.transactions_per_month * 150
-  const toolCallTokens = state.tool_calls * state.transactions_per_month * 100
-  const memoryTokens = state.memory_ops * state.transactions_per_month * 100
-  const reflectionTokens = state.reflection_enabled ? state.transactions_per_month * 300 : 0
-
-  const totalInputCost = (totalInputTokens + interAgentTokens + ragTokens + dbQueryTokens + toolCallTokens + memoryTokens + reflectionTokens) / 1_000_000 * pricing.input
-  const totalOutputCost = totalOutputTokens / 1_000_000 * pricing.output
-  const totalMonthly = totalInputCost + totalOutputCost
-
-  return {
-    inputTokens: totalInputTokens + interAgentTokens + ragTokens + dbQueryTokens + toolCallTokens + memoryTokens + reflectionTokens,
-    outputTokens: totalOutputTokens,
-    inputCost: totalInputCost,
-    outputCost: totalOutputCost,
-    totalMonthly,
-    totalAnnual: totalMonthly * 12,
-  }
-}
-
-// Results Component
-function ResultsTab({ state }: { state: EstimatorState }) {
-  const costs = CostCalculator(state)
 
-  return (
-    <div className="space-y-6">
-      {/* Monthly Cost Summary */}
-      <Card className="bg-gradient-to-br from-blue-50 to-indigo-50 border-blue-200">
+      {/* Reliability Overhead */}
+      <Card>
         <CardHeader>
-          <CardTitle className="text-2xl">Monthly Estimate</CardTitle>
+          <CardTitle className="text-lg">Retries & Escalations</CardTitle>
+          <CardDescription>LLM output does not always succeed on the first pass</CardDescription>
         </CardHeader>
-        <CardContent className="space-y-4">
-          <div>
-            <div className="text-4xl font-bold text-blue-600 mb-2">
-              ${costs.totalMonthly.toFixed(2)}
-            </div>
-            <div className="text-sm text-gray-600">
-              Annual: ${costs.totalAnnual.toFixed(2)}
+        <CardContent className="space-y-6">
+          <SliderInput
+            label="Parse Failures Retried (%)"
+            value={state.parse_retry_pct}
+            min={0}
+            max={50}
+            step={1}
+            onChange={(val) => handleSliderChange('parse_retry_pct', [val])}
+          />
+          <SliderInput
+            label="Tool Call Failures Retried (%)"
+            value={state.tool_failure_pct}
+            min={0}
+            max={50}
+            step={1}
+            onChange={(val) => handleSliderChange('tool_failure_pct', [val])}
+          />
+          <SliderInput
+            label="Escalated to Larger Model (%)"
+            value={state.escalation_pct}
+            min={0}
+            max={50}
+            step={1}
+            onChange={(val) => handleSliderChange('escalation_pct', [val])}
+          />
+          {state.escalation_pct > 0 && (
+            <div>
+              <label className="text-sm font-medium mb-2 block">Escalation Model</label>
+              <ModelSelect
+                value={state.escalation_model_id}
+                onChange={(val) => setState(prev => ({ ...prev, escalation_model_id: val }))}
+              />
             </div>
-          </div>
+          )}
         </CardContent>
       </Card>
 
-      {/* Cost Breakdown */}
+      {/* Human Review */}
       <Card>
         <CardHeader>
-          <CardTitle className="text-lg">Cost Breakdown</CardTitle>
+          <CardTitle className="text-lg">Human Review</CardTitle>
+          <CardDescription>Escalations and spot checks handled by your team</CardDescription>
         </CardHeader>
-        <CardContent className="space-y-4">
-          <CostRow
-            label="Input Tokens"
-            value={costs.inputTokens}
-            cost={costs.inputCost}
-          />
-          <CostRow
-            label="Output Tokens"
-            value={costs.outputTokens}
-            cost={costs.outputCost}
+        <CardContent className="space-y-6">
+          <SliderInput
+            label="Transactions Escalated or Reviewed (%)"
+            value={state.review_pct}
+            min={0}
+            max={100}
+            step={1}
+            onChange={(val) => handleSliderChange('review_pct', [val])}
           />
-          <Separator />
-          <div className="flex justify-between items-center">
-            <span className="font-semibold text-gray-900">Total Monthly Cost</span>
-            <span className="text-xl font-bold text-blue-600">${costs.totalMonthly.toFixed(2)}</span>
-          </div>
+          {state.review_pct > 0 && (
+            <>
+              <SliderInput
+                label="Review Minutes Per Item"
+                value={state.review_minutes}
+                min={1}
+                max={60}
+                step={1}
+                onChange={(val) => handleSliderChange('review_minutes', [val])}
+              />
+              <SliderInput
+                label={`Reviewer Hourly Rate (${BASE_CURRENCY})`}
+                value={state.reviewer_hourly_rate}
+                min={5}
+                max={200}
+                step={5}
+                onChange={(val) => handleSliderChange('reviewer_hourly_rate', [val])}
+              />
+            </>
+          )}
         </CardContent>
       </Card>
 
-      {/* Volume Summary */}
+      {/* Third-Party Costs */}
       <Card>
         <CardHeader>
-          <CardTitle className="text-lg">Configuration Summary</CardTitle>
+          <CardTitle className="text-lg">Third-Party Costs</CardTitle>
+          <CardDescription>OCR, CRM API calls, SMS sends and other fees billed outside the model provider</CardDescription>
         </CardHeader>
-        <CardContent className="space-y-2 text-sm">
-          <div className="flex justify-between">
-            <span className="text-gray-600">Transactions/Month:</span>
-            <span className="font-medium">{state.transactions_per_month.toLocaleString()}</span>
-          </div>
-          <div className="flex justify-between">
-            <span className="text-gray-600">Model Tier:</span>
-            <Badge variant="outline" className="capitalize">{state.model_tier}</Badge>
-          </div>
-          <div className="flex justify-between">
-            <span className="text-gray-600">Active Features:</span>
-            <span className="font-medium">
-              {[
-                state.rag_queries > 0 && 'RAG',
-                state.memory_ops > 0 && 'Memory',
-                state.db_queries > 0 && 'DB',
-                state.tool_calls > 0 && 'Tools',
-                state.reflection_enabled && 'Reflection'
-              ].filter(Boolean).join(', ') || 'None'}
-            </span>
-          </div>
+        <CardContent>
+          <CustomItemEditor
+            items={state.custom_items}
+            onChange={(custom_items) => setState(prev => ({ ...prev, custom_items }))}
+          />
         </CardContent>
       </Card>
 
-      {/* Scenarios */}
+      {/* Manual Baseline */}
       <Card>
         <CardHeader>
-          <CardTitle className="text-lg">Usage Scenarios</CardTitle>
+          <CardTitle className="text-lg">Manual Baseline</CardTitle>
+          <CardDescription>What handling these transactions by hand costs today, for ROI</CardDescription>
         </CardHeader>
-        <CardContent className="space-y-3">
-          <ScenarioRow
-            name="10x Growth"
-            multiplier={10}
-            currentCost={costs.totalMonthly}
+        <CardContent className="space-y-6">
+          <SliderInput
+            label="Human Handling Minutes Per Transaction"
+            value={state.human_minutes_per_transaction}
+            min={0}
+            max={60}
+            step={1}
+            onChange={(val) => handleSliderChange('human_minutes_per_transaction', [val])}
           />
-          <ScenarioRow
-            name="5x Growth"
-            multiplier={5}
-            currentCost={costs.totalMonthly}
+          <SliderInput
+            label={`Loaded Hourly Rate (${BASE_CURRENCY})`}
+            value={state.human_hourly_rate}
+            min={5}
+            max={200}
+            step={5}
+            onChange={(val) => handleSliderChange('human_hourly_rate', [val])}
           />
-          <ScenarioRow
-            name="2x Growth"
-            multiplier={2}
-            currentCost={costs.totalMonthly}
+          <SliderInput
+            label={`One-Time Implementation Cost (${BASE_CURRENCY})`}
+            value={state.implementation_cost}
+            min={0}
+            max={500000}
+            step={1000}
+            onChange={(val) => handleSliderChange('implementation_cost', [val])}
           />
         </CardContent>
       </Card>
+
+      {/* Uncertainty */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Uncertainty Ranges</CardTitle>
+          <CardDescription>How far actual usage may land from the values above</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <label className="text-sm font-medium mb-2 block">Distribution</label>
+            <Select value={state.distribution} onValueChange={(val: EstimatorState['distribution']) => setState(prev => ({ ...prev, distribution: val }))}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="triangular">Triangular (most likely at the point estimate)</SelectItem>
+                <SelectItem value="uniform">Uniform (any value in range equally likely)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {([
+            ['transactions_per_month', 'Volume (all channels)'],
+            ['input_tokens', 'Input Tokens'],
+            ['output_tokens', 'Output Tokens'],
+            ['feature_usage', 'Feature Usage (RAG, DB, Tools, Memory)'],
+          ] as const).map(([key, label]) => (
+            <UncertaintyRangeInput
+              key={key}
+              label={label}
+              range={state.uncertainty[key]}
+              onChange={(range) => setState(prev => ({ ...prev, uncertainty: { ...prev.uncertainty, [key]: range } }))}
+            />
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* RAG Corpus */}
+      {(state.rag_queries > 0 || state.agents.some(agent => agent.rag_queries > 0)) && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">RAG Corpus</CardTitle>
+            <CardDescription>Ingestion, re-embedding and vector storage for the retrieval index</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div>
+              <label className="text-sm font-medium mb-2 block">Embedding Model</label>
+              <Select value={state.embedding_model_id} onValueChange={(val) => setState(prev => ({ ...prev, embedding_model_id: val }))}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EMBEDDING_CATALOG.map(model => (
+                    <SelectItem key={model.id} value={model.id}>
+                      {model.name} ({model.provider}) - ${model.input}/M tokens
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <SliderInput
+              label="Documents in Corpus"
+              value={state.rag_corpus_docs}
+              min={100}
+              max={1000000}
+              step={100}
+              onChange={(val) => handleSliderChange('rag_corpus_docs', [val])}
+            />
+            <SliderInput
+              label="Avg Tokens Per Document"
+              value={state.rag_doc_tokens}
+              min={100}
+              max={50000}
+              step={100}
+              onChange={(val) => handleSliderChange('rag_doc_tokens', [val])}
+            />
+            <SliderInput
+              label="New or Updated Documents Per Month"
+              value={state.rag_docs_churn_per_month}
+              min={0}
+              max={100000}
+              step={100}
+              onChange={(val) => handleSliderChange('rag_docs_churn_per_month', [val])}
+            />
+            <SliderInput
+              label="Chunk Size (Tokens)"
+              value={state.rag_chunk_tokens}
+              min={100}
+              max={2000}
+              step={50}
+              onChange={(val) => handleSliderChange('rag_chunk_tokens', [val])}
+            />
+            <SliderInput
+              label="Chunks Retrieved Per Query (Top-K)"
+              value={state.rag_top_k}
+              min={1}
+              max={20}
+              step={1}
+              onChange={(val) => handleSliderChange('rag_top_k', [val])}
+            />
+          </CardContent>
+        </Card>
+      )}
     </div>
   )
 }
 
-// Cost Row Component
-function CostRow({
-  label,
+// Model Select Component
+function ModelSelect({
   value,
-  cost,
+  onChange,
+  sameModelLabel,
 }: {
-  label: string
-  value: number
-  cost: number
+  value: string
+  onChange: (modelId: string) => void
+  sameModelLabel?: string
 }) {
   return (
-    <div className="flex justify-between items-center p-3 bg-gray-50 rounded">
-      <div>
-        <div className="font-medium text-gray-900">{label}</div>
-        <div className="text-sm text-gray-600">{(value / 1_000_000).toFixed(2)}M tokens</div>
-      </div>
-      <div className="text-lg font-semibold text-gray-900">${cost.toFixed(2)}</div>
-    </div>
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-full">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {sameModelLabel && <SelectItem value={SAME_MODEL}>{sameModelLabel}</SelectItem>}
+        {MODEL_CATALOG.map(model => (
+          <SelectItem key={model.id} value={model.id}>
+            {TIER_LABELS[model.tier]} - {model.name} - ${model.input}/M input, ${model.output}/M output
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
   )
 }
 
-// Scenario Row Component
-function ScenarioRow({
-  name,
-  multiplier,
-  currentCost,
+// Agent Pipeline Editor Component
+function AgentPipelineEditor({
+  primaryModelId,
+  primaryModelName,
+  agents,
+  onChange,
 }: {
-  name: string
-  multiplier: number
-  currentCost: number
+  primaryModelId: string
+  // The route mix when routing, otherwise the configured model
+  primaryModelName: string
+  agents: AgentConfig[]
+  onChange: (agents: AgentConfig[]) => void
 }) {
-  return (
-    <div className="flex justify-between items-center p-3 bg-gray-50 rounded">
-      <span className="font-medium text-gray-900">{name}</span>
-      <span className="text-lg font-semibold text-gray-900">
-        ${(currentCost * multiplier).toFixed(2)}
-      </span>
+  const updateAgent = (id: string, patch: Partial<AgentConfig>) => {
+    onChange(agents.map(agent => agent.id === id ? { ...agent, ...patch } : agent))
+  }
+
+  const moveAgent = (index: number, offset: number) => {
+    const next = [...agents]
+    const [agent] = next.splice(index, 1)
+    next.splice(index + offset, 0, agent)
+    onChange(next)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="p-3 rounded-lg border-2 border-blue-500 bg-blue-50 text-sm">
+        <span className="font-medium">1. Primary Agent</span>
+        <span className="text-gray-600"> - {primaryModelName}, configured above</span>
+      </div>
+
+      {agents.map((agent, i) => (
+        <div key={agent.id} className="p-3 rounded-lg border border-gray-200 space-y-4">
+          <div className="flex gap-2 items-center">
+            <span className="text-sm font-medium">{i + 2}.</span>
+            <Input
+              value={agent.name}
+              onChange={e => updateAgent(agent.id, { name: e.target.value })}
+              className="flex-1"
+            />
+            <Button variant="ghost" size="sm" disabled={i === 0} onClick={() => moveAgent(i, -1)} title="Move up">
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" disabled={i === agents.length - 1} onClick={() => moveAgent(i, 1)} title="Move down">
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => onChange(agents.filter(a => a.id !== agent.id))} title="Remove agent">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <ModelSelect value={agent.model_id} onChange={(val) => updateAgent(agent.id, { model_id: val })} />
+          <SliderInput
+            label="Input Tokens Per Request"
+            value={agent.input_tokens}
+            min={100}
+            max={20000}
+            step={100}
+            onChange={(val) => updateAgent(agent.id, { input_tokens: val })}
+          />
+          <SliderInput
+            label="Output Tokens Per Request"
+            value={agent.output_tokens}
+            min={50}
+            max={10000}
+            step={50}
+            onChange={(val) => updateAgent(agent.id, { output_tokens: val })}
+          />
+          <SliderInput
+            label="RAG Queries"
+            value={agent.rag_queries}
+            min={0}
+            max={20}
+            step={1}
+            onChange={(val) => updateAgent(agent.id, { rag_queries: val })}
+          />
+          <SliderInput
+            label="Tool Calls"
+            value={agent.tool_calls}
+            min={0}
+            max={10}
+            step={1}
+            onChange={(val) => updateAgent(agent.id, { tool_calls: val })}
+          />
+          <SliderInput
+            label="Memory Operations"
+            value={agent.memory_ops}
+            min={0}
+            max={10}
+            step={1}
+            onChange={(val) => updateAgent(agent.id, { memory_ops: val })}
+          />
+        </div>
+      ))}
+
+      <Button
+        variant="outline"
+        className="w-full"
+        onClick={() => onChange([...agents, createAgent(agents.length + 2, primaryModelId)])}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Agent
+      </Button>
+    </div>
+  )
+}
+
+const VOLUME_UNIT_LABELS: Record<VolumeUnit, string> = {
+  business_day: 'per business day',
+  calendar_day: 'per calendar day',
+  week: 'per week',
+  month: 'per month',
+}
+
+// Channel Editor Component
+function ChannelEditor({ channels, onChange }: { channels: ChannelStream[]; onChange: (channels: ChannelStream[]) => void }) {
+  const updateChannel = (id: string, patch: Partial<ChannelStream>) => {
+    onChange(channels.map(channel => channel.id === id ? { ...channel, ...patch } : channel))
+  }
+
+  return (
+    <div className="space-y-4">
+      {channels.map(channel => (
+        <div key={channel.id} className="border rounded-lg p-4 space-y-4">
+          <div className="flex gap-2 items-center text-sm">
+            <Input
+              className="w-40 font-medium"
+              value={channel.name}
+              onChange={e => updateChannel(channel.id, { name: e.target.value })}
+            />
+            <Input
+              type="number"
+              min={0}
+              className="w-28"
+              value={channel.volume}
+              onChange={e => updateChannel(channel.id, { volume: Math.max(0, Number(e.target.value) || 0) })}
+            />
+            <Select value={channel.volume_unit} onValueChange={(val: VolumeUnit) => updateChannel(channel.id, { volume_unit: val })}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(VOLUME_UNIT_LABELS) as VolumeUnit[]).map(unit => (
+                  <SelectItem key={unit} value={unit}>{VOLUME_UNIT_LABELS[unit]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={channel.workload} onValueChange={(val: WorkloadType) => updateChannel(channel.id, { workload: val })}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="request">Single request</SelectItem>
+                <SelectItem value="conversation">Conversation</SelectItem>
+              </SelectContent>
+            </Select>
+            <span className="text-xs text-gray-500 flex-1 text-right">
+              ≈ {Math.round(channelMonthlyVolume(channel)).toLocaleString()}/month
+            </span>
+            <Button variant="ghost" size="sm" onClick={() => onChange(channels.filter(c => c.id !== channel.id))} title="Remove channel">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          {channel.volume > 0 && channel.workload === 'request' && (
+            <>
+              <SliderInput
+                label="Avg Input Tokens Per Request"
+                value={channel.input_tokens}
+                min={100}
+                max={200000}
+                step={100}
+                onChange={(val) => updateChannel(channel.id, { input_tokens: val })}
+              />
+              <SliderInput
+                label="Avg Output Tokens Per Request"
+                value={channel.output_tokens}
+                min={100}
+                max={32000}
+                step={100}
+                onChange={(val) => updateChannel(channel.id, { output_tokens: val })}
+              />
+            </>
+          )}
+          {channel.volume > 0 && channel.workload === 'conversation' && (
+            <ConversationSettings channel={channel} onChange={(patch) => updateChannel(channel.id, patch)} />
+          )}
+          {channel.volume > 0 && (
+            <>
+              <AttachmentInputs channel={channel} onChange={(patch) => updateChannel(channel.id, patch)} />
+              <SliderInput
+                label="Response Time SLA (seconds, 0 = none)"
+                value={channel.sla_seconds}
+                min={0}
+                max={60}
+                step={1}
+                onChange={(val) => updateChannel(channel.id, { sla_seconds: val })}
+              />
+            </>
+          )}
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        className="w-full"
+        onClick={() => onChange([...channels, createChannel(channels.length + 1)])}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Channel
+      </Button>
+    </div>
+  )
+}
+
+const IMAGE_RESOLUTION_LABELS: Record<ImageResolution, string> = {
+  low: 'low (~512px)',
+  standard: 'standard (~1024px)',
+  high: 'high (~2048px)',
+}
+
+// Attachment Inputs Component
+function AttachmentInputs({ channel, onChange }: { channel: ChannelStream; onChange: (patch: Partial<ChannelStream>) => void }) {
+  const count = (value: string) => Math.max(0, Number(value) || 0)
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium block">Attachments Per Transaction</label>
+      <div className="flex gap-2 items-center text-sm">
+        <Input type="number" min={0} className="w-20" value={channel.images} onChange={e => onChange({ images: count(e.target.value) })} />
+        <span className="text-gray-600">images at</span>
+        <Select value={channel.image_resolution} onValueChange={(val: ImageResolution) => onChange({ image_resolution: val })}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(IMAGE_RESOLUTION_LABELS) as ImageResolution[]).map(resolution => (
+              <SelectItem key={resolution} value={resolution}>{IMAGE_RESOLUTION_LABELS[resolution]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex gap-2 items-center text-sm">
+        <Input type="number" min={0} className="w-20" value={channel.pdf_pages} onChange={e => onChange({ pdf_pages: count(e.target.value) })} />
+        <span className="text-gray-600">PDF pages,</span>
+        <Input type="number" min={0} className="w-20" value={channel.audio_minutes} onChange={e => onChange({ audio_minutes: count(e.target.value) })} />
+        <span className="text-gray-600">audio minutes</span>
+      </div>
+      {channel.workload === 'conversation' && (
+        <p className="text-xs text-gray-500">
+          Resent with every turn, along with the fixed prompt and retrieved context; audio is transcribed once per session.
+        </p>
+      )}
+    </div>
+  )
+}
+
+const HISTORY_STRATEGY_LABELS: Record<HistoryStrategy, string> = {
+  full: 'Resend full history',
+  truncate: 'Keep the last turns only',
+  summarize: 'Summarize older turns',
+}
+
+// Conversation Settings Component
+function ConversationSettings({ channel, onChange }: { channel: ChannelStream; onChange: (patch: Partial<ChannelStream>) => void }) {
+  const session = ConversationCalculator(channel)
+
+  return (
+    <div className="space-y-4">
+      <SliderInput
+        label="Turns Per Session"
+        value={channel.turns_per_session}
+        min={1}
+        max={40}
+        step={1}
+        onChange={(val) => onChange({ turns_per_session: val })}
+      />
+      <SliderInput
+        label="Avg Tokens Per User Turn"
+        value={channel.input_tokens}
+        min={10}
+        max={5000}
+        step={10}
+        onChange={(val) => onChange({ input_tokens: val })}
+      />
+      <SliderInput
+        label="Avg Tokens Per Assistant Turn"
+        value={channel.output_tokens}
+        min={10}
+        max={5000}
+        step={10}
+        onChange={(val) => onChange({ output_tokens: val })}
+      />
+      <div>
+        <label className="text-sm font-medium mb-2 block">History</label>
+        <Select value={channel.history_strategy} onValueChange={(val: HistoryStrategy) => onChange({ history_strategy: val })}>
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(HISTORY_STRATEGY_LABELS) as HistoryStrategy[]).map(strategy => (
+              <SelectItem key={strategy} value={strategy}>{HISTORY_STRATEGY_LABELS[strategy]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {channel.history_strategy !== 'full' && (
+        <SliderInput
+          label="Turns Kept Verbatim"
+          value={channel.history_window_turns}
+          min={1}
+          max={20}
+          step={1}
+          onChange={(val) => onChange({ history_window_turns: val })}
+        />
+      )}
+      {channel.history_strategy === 'summarize' && (
+        <SliderInput
+          label="Summary Tokens"
+          value={channel.summary_tokens}
+          min={100}
+          max={4000}
+          step={100}
+          onChange={(val) => onChange({ summary_tokens: val })}
+        />
+      )}
+      <p className="text-xs text-gray-500">
+        One session sends {Math.round(session.inputTokens + session.historyTokens).toLocaleString()} input tokens
+        ({Math.round(session.historyTokens).toLocaleString()} of them resent history) and generates {Math.round(session.outputTokens).toLocaleString()} output tokens
+        over {session.calls} calls, before the fixed prompt and features.
+      </p>
+    </div>
+  )
+}
+
+// Routing Editor Component
+function RoutingEditor({ routing, onChange }: { routing: RoutingConfig; onChange: (routing: RoutingConfig) => void }) {
+  const updateRoute = (id: string, patch: Partial<ModelRoute>) => {
+    onChange({ ...routing, routes: routing.routes.map(route => route.id === id ? { ...route, ...patch } : route) })
+  }
+  const totalPct = routing.routes.reduce((sum, route) => sum + route.share_pct, 0)
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="text-sm font-medium block">Routes ({totalPct}% of traffic)</label>
+        {routing.routes.map(route => (
+          <div key={route.id} className="flex gap-2 items-center text-sm">
+            <div className="flex-1">
+              <ModelSelect value={route.model_id} onChange={(model_id) => updateRoute(route.id, { model_id })} />
+            </div>
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              className="w-20"
+              value={route.share_pct}
+              onChange={e => updateRoute(route.id, { share_pct: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+            />
+            <span className="text-gray-600">%</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange({ ...routing, routes: routing.routes.filter(r => r.id !== route.id) })}
+              title="Remove route"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => onChange({ ...routing, routes: [...routing.routes, createRoute(routing.routes.length + 1, DEFAULT_MODEL_ID, Math.max(0, 100 - totalPct))] })}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Route
+        </Button>
+      </div>
+      <div>
+        <label className="text-sm font-medium mb-2 block">Classifier Model</label>
+        <ModelSelect value={routing.classifier_model_id} onChange={(classifier_model_id) => onChange({ ...routing, classifier_model_id })} />
+      </div>
+      <SliderInput
+        label="Classifier Prompt Tokens (plus the request)"
+        value={routing.classifier_prompt_tokens}
+        min={0}
+        max={2000}
+        step={50}
+        onChange={(val) => onChange({ ...routing, classifier_prompt_tokens: val })}
+      />
+      <SliderInput
+        label="Classifier Output Tokens"
+        value={routing.classifier_output_tokens}
+        min={1}
+        max={200}
+        step={1}
+        onChange={(val) => onChange({ ...routing, classifier_output_tokens: val })}
+      />
+    </div>
+  )
+}
+
+// Custom Item Editor Component
+function CustomItemEditor({ items, onChange }: { items: CustomCostItem[]; onChange: (items: CustomCostItem[]) => void }) {
+  const updateItem = (id: string, patch: Partial<CustomCostItem>) => {
+    onChange(items.map(item => item.id === id ? { ...item, ...patch } : item))
+  }
+  const amount = (value: string) => Math.max(0, Number(value) || 0)
+
+  return (
+    <div className="space-y-2">
+      {items.length === 0 && (
+        <p className="text-xs text-gray-500">No third-party costs - the estimate covers model, RAG and review spend only.</p>
+      )}
+      {items.map(item => (
+        <div key={item.id} className="flex gap-2 items-center text-sm">
+          <Input
+            className="w-40"
+            value={item.name}
+            onChange={e => updateItem(item.id, { name: e.target.value })}
+          />
+          <Select value={item.pricing} onValueChange={(val: CustomCostItem['pricing']) => updateItem(item.id, { pricing: val })}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="per_unit">Per unit</SelectItem>
+              <SelectItem value="monthly">Flat monthly</SelectItem>
+            </SelectContent>
+          </Select>
+          {item.pricing === 'per_unit' ? (
+            <>
+              <span className="text-gray-600">{BASE_CURRENCY}</span>
+              <Input
+                type="number"
+                min={0}
+                step={0.001}
+                className="w-24"
+                value={item.unit_price}
+                onChange={e => updateItem(item.id, { unit_price: amount(e.target.value) })}
+              />
+              <span className="text-gray-600">x</span>
+              <Input
+                type="number"
+                min={0}
+                className="w-20"
+                value={item.units_per_transaction}
+                onChange={e => updateItem(item.id, { units_per_transaction: amount(e.target.value) })}
+              />
+              <span className="text-gray-600 flex-1">units/transaction</span>
+            </>
+          ) : (
+            <>
+              <span className="text-gray-600">{BASE_CURRENCY}</span>
+              <Input
+                type="number"
+                min={0}
+                className="w-28"
+                value={item.monthly_amount}
+                onChange={e => updateItem(item.id, { monthly_amount: amount(e.target.value) })}
+              />
+              <span className="text-gray-600 flex-1">per month</span>
+            </>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => onChange(items.filter(i => i.id !== item.id))} title="Remove item">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" className="w-full" onClick={() => onChange([...items, createCustomItem(items.length + 1)])}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add Cost Item
+      </Button>
+    </div>
+  )
+}
+
+// Volume Tier Editor Component
+function VolumeTierEditor({ tiers, onChange }: { tiers: VolumeTier[]; onChange: (tiers: VolumeTier[]) => void }) {
+  const updateTier = (id: string, patch: Partial<VolumeTier>) => {
+    onChange(tiers.map(tier => tier.id === id ? { ...tier, ...patch } : tier))
+  }
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium block">Volume Tiers</label>
+      {tiers.length === 0 && (
+        <p className="text-xs text-gray-500">No tiers - every token is billed at list price.</p>
+      )}
+      {tiers.map(tier => (
+        <div key={tier.id} className="flex gap-2 items-center text-sm">
+          <span className="text-gray-600">Above</span>
+          <Input
+            type="number"
+            min={0}
+            className="w-24"
+            value={tier.above_million_tokens}
+            onChange={e => updateTier(tier.id, { above_million_tokens: Math.max(0, Number(e.target.value) || 0) })}
+          />
+          <span className="text-gray-600">M tokens/month,</span>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            className="w-20"
+            value={tier.discount_pct}
+            onChange={e => updateTier(tier.id, { discount_pct: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+          />
+          <span className="text-gray-600 flex-1">% off list</span>
+          <Button variant="ghost" size="sm" onClick={() => onChange(tiers.filter(t => t.id !== tier.id))} title="Remove tier">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        className="w-full"
+        onClick={() => {
+          const last = tiers[tiers.length - 1]
+          onChange([...tiers, createVolumeTier(
+            tiers.length + 1,
+            last ? last.above_million_tokens * 2 : 100,
+            last ? last.discount_pct + 10 : 10,
+          )])
+        }}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Tier
+      </Button>
+    </div>
+  )
+}
+
+// Model Specs Component
+function ModelSpecs({ modelId }: { modelId: string }) {
+  const model = getModelPricing(modelId)
+
+  return (
+    <div className="grid grid-cols-2 gap-2 text-xs text-gray-600 bg-gray-50 rounded-lg p-3">
+      <div>Provider: <span className="font-medium text-gray-900">{model.provider}</span></div>
+      <div>Cached input: <span className="font-medium text-gray-900">${model.cached_input}/M</span></div>
+      <div>Context window: <span className="font-medium text-gray-900">{model.context_window.toLocaleString()} tokens</span></div>
+      <div>Max output: <span className="font-medium text-gray-900">{model.max_output_tokens.toLocaleString()} tokens</span></div>
+      <div>Images: <span className="font-medium text-gray-900">{model.image_tokens ? `${model.image_tokens.standard.toLocaleString()} tokens at 1024px` : 'not supported'}</span></div>
+      <div>PDF pages: <span className="font-medium text-gray-900">{model.pdf_page_tokens ? `${model.pdf_page_tokens.toLocaleString()} tokens/page` : 'text layer only'}</span></div>
+      <div>Audio: <span className="font-medium text-gray-900">{model.audio_tokens_per_minute > 0 ? `${model.audio_tokens_per_minute.toLocaleString()} tokens/min at $${model.audio_input}/M` : 'transcribed first'}</span></div>
+      <div className="col-span-2 text-gray-500">Pricing catalog {PRICING_CATALOG_VERSION}</div>
+    </div>
+  )
+}
+
+// Slider Input Component
+function SliderInput({
+  label,
+  value,
+  min,
+  max,
+  step,
+  onChange,
+}: {
+  label: string
+  value: number
+  min: number
+  max: number
+  step: number
+  onChange: (value: number) => void
+}) {
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <label className="text-sm font-medium">{label}</label>
+        <span className="text-lg font-semibold text-blue-600">{value.toLocaleString()}</span>
+      </div>
+      <Slider
+        value={[value]}
+        onValueChange={(val) => onChange(val[0])}
+        min={min}
+        max={max}
+        step={step}
+        className="w-full"
+      />
+    </div>
+  )
+}
+
+// Feature Toggle Component
+function FeatureToggle({
+  label,
+  enabled,
+  onToggle,
+}: {
+  label: string
+  enabled: boolean
+  onToggle: () => void
+}) {
+  return (
+    <button
+      onClick={onToggle}
+      className={`w-full text-left p-3 rounded-lg border-2 transition-colors ${
+        enabled
+          ? 'border-blue-500 bg-blue-50'
+          : 'border-gray-200 bg-white hover:border-gray-300'
+      }`}
+    >
+      <div className="flex items-center gap-2">
+        <div className={`w-5 h-5 rounded border-2 flex items-center justify-center ${
+          enabled ? 'bg-blue-500 border-blue-500' : 'border-gray-300'
+        }`}>
+          {enabled && <CheckCircle2 className="h-3 w-3 text-white" />}
+        </div>
+        <span className="font-medium text-sm">{label}</span>
+      </div>
+    </button>
+  )
+}
+
+// Feasibility Alerts Component
+function FeasibilityAlerts({ issues }: { issues: EstimateIssue[] }) {
+  if (issues.length === 0) return null
+
+  return (
+    <div className="space-y-3">
+      {issues.map((issue, i) => (
+        <Alert
+          key={i}
+          variant={issue.severity === 'error' ? 'destructive' : 'default'}
+          className={issue.severity === 'error' ? 'bg-red-50' : 'border-amber-300 bg-amber-50 text-amber-900'}
+        >
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>{issue.title ?? (issue.severity === 'error' ? 'Configuration cannot run' : 'Close to model limits')}</AlertTitle>
+          <AlertDescription>
+            <p>{issue.message}</p>
+            <p className="mt-1 font-medium">{issue.suggestion}</p>
+          </AlertDescription>
+        </Alert>
+      ))}
+    </div>
+  )
+}
+
+// Estimate as CSV, amounts converted to the display currency
+function estimateCsv(costs: CostEstimate, currency: CurrencySettings): string {
+  const rate = getExchangeRate(currency)
+  const amount = (usd: number) => convertFromUsd(usd, currency).toFixed(2)
+  const quote = (text: string) => `"${text.replace(/"/g, '""')}"`
+
+  const rows = [
+    ['Item', 'Volume', `Monthly Cost (${rate.code})`],
+    ...costs.lineItems.map(item => [
+      quote(item.label),
+      item.detail ? quote(item.detail) : `${Math.round(item.tokens)} tokens`,
+      amount(item.cost),
+    ]),
+    ['Batch Discount', '', amount(-costs.batchSavings)],
+    ['Volume Tier Discount', '', amount(-costs.tierSavings)],
+    ['Committed-Use Discount', '', amount(-costs.commitDiscount)],
+    ['Commitment Shortfall', '', amount(costs.commitShortfall)],
+    ['Total Monthly Cost', '', amount(costs.totalMonthly)],
+    ['Total Annual Cost', '', amount(costs.totalAnnual)],
+    [quote(`Exchange rate (${rate.code} per ${BASE_CURRENCY}, as of ${EXCHANGE_RATES_AS_OF})`), '', String(rate.per_usd)],
+    ['Pricing Catalog', '', costs.pricingVersion],
+  ]
+  return rows.map(row => row.join(',')).join('\n')
+}
+
+// Results Component
+function ResultsTab({
+  state,
+  currency,
+  onCurrencyChange,
+}: {
+  state: EstimatorState
+  currency: CurrencySettings
+  onCurrencyChange: (currency: CurrencySettings) => void
+}) {
+  const costs = CostCalculator(state)
+  const issues = validateEstimate(state)
+  const blocked = issues.some(issue => issue.severity === 'error')
+  const money = (amountUsd: number) => formatMoney(amountUsd, currency)
+
+  const downloadCsv = () => {
+    const element = document.createElement('a')
+    element.setAttribute('href', 'data:text/csv;charset=utf-8,' + encodeURIComponent(estimateCsv(costs, currency)))
+    element.setAttribute('download', `cost-estimate-${currency.code.toLowerCase()}.csv`)
+    element.style.display = 'none'
+    document.body.appendChild(element)
+    element.click()
+    document.body.removeChild(element)
+  }
+
+  return (
+    <div className="space-y-6">
+      <FeasibilityAlerts issues={issues} />
+
+      {/* Monthly Cost Summary */}
+      <Card className="bg-gradient-to-br from-blue-50 to-indigo-50 border-blue-200">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-2xl">Monthly Estimate</CardTitle>
+          <Select value={currency.code} onValueChange={(code) => onCurrencyChange({ ...currency, code })}>
+            <SelectTrigger className="w-28 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {currency.rates.map(rate => (
+                <SelectItem key={rate.code} value={rate.code}>{rate.code}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <div className="text-4xl font-bold text-blue-600 mb-2">
+              {money(costs.totalMonthly)}
+            </div>
+            <div className="text-sm text-gray-600">
+              Annual: {money(costs.totalAnnual)}
+            </div>
+            {blocked && (
+              <div className="text-sm text-red-700 mt-2">
+                This configuration exceeds the model's limits - fix the issues above before quoting it.
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* ROI */}
+      <RoiSummary state={state} currency={currency} />
+
+      {/* Routing */}
+      <RoutingSavings state={state} currency={currency} />
+
+      {/* Cost Uncertainty */}
+      <CostUncertainty state={state} currency={currency} />
+
+      {/* Cost Breakdown */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-lg">Cost Breakdown</CardTitle>
+          <Button variant="outline" size="sm" onClick={downloadCsv}>
+            <Download className="h-4 w-4 mr-2" />
+            Download CSV
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {costs.lineItems.map(item => (
+            <CostRow
+              key={item.id}
+              label={item.label}
+              value={item.tokens}
+              cost={item.cost}
+              currency={currency}
+              share={costs.listPriceMonthly > 0 ? item.cost / costs.listPriceMonthly : 0}
+              detail={item.detail}
+            />
+          ))}
+          <Separator />
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Input subtotal:</span>
+              <span className="font-medium">{money(costs.inputCost)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Output subtotal:</span>
+              <span className="font-medium">{money(costs.outputCost)}</span>
+            </div>
+            {costs.servicesCost > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Services subtotal:</span>
+                <span className="font-medium">{money(costs.servicesCost)}</span>
+              </div>
+            )}
+            {costs.multimodalCost > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Multimodal (in subtotals):</span>
+                <span className="font-medium">{money(costs.multimodalCost)}</span>
+              </div>
+            )}
+            {costs.humanReviewCost > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Human review subtotal:</span>
+                <span className="font-medium">{money(costs.humanReviewCost)}</span>
+              </div>
+            )}
+            {costs.customCost > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Third-party subtotal:</span>
+                <span className="font-medium">{money(costs.customCost)}</span>
+              </div>
+            )}
+          </div>
+          {costs.batchSavings > 0 && (
+            <div className="flex justify-between items-center p-3 bg-green-50 rounded">
+              <div>
+                <div className="font-medium text-gray-900">Batch Discount</div>
+                <div className="text-sm text-gray-600">
+                  {(costs.batchShare * 100).toFixed(0)}% of traffic at each model's batch rate
+                </div>
+              </div>
+              <div className="text-lg font-semibold text-green-700">{money(-costs.batchSavings)}</div>
+            </div>
+          )}
+          {costs.tierSavings > 0 && (
+            <div className="flex justify-between items-center p-3 bg-green-50 rounded">
+              <div>
+                <div className="font-medium text-gray-900">Volume Tier Discount</div>
+                <div className="text-sm text-gray-600">
+                  {(costs.contractTokens / 1_000_000).toFixed(1)}M {costs.contractProvider} tokens this month
+                </div>
+              </div>
+              <div className="text-lg font-semibold text-green-700">{money(-costs.tierSavings)}</div>
+            </div>
+          )}
+          {costs.commitDiscount > 0 && (
+            <div className="flex justify-between items-center p-3 bg-green-50 rounded">
+              <div>
+                <div className="font-medium text-gray-900">Committed-Use Discount</div>
+                <div className="text-sm text-gray-600">{state.commit_discount_pct}% off {costs.contractProvider} usage</div>
+              </div>
+              <div className="text-lg font-semibold text-green-700">{money(-costs.commitDiscount)}</div>
+            </div>
+          )}
+          {costs.commitShortfall > 0 && (
+            <div className="flex justify-between items-center p-3 bg-amber-50 rounded">
+              <div>
+                <div className="font-medium text-gray-900">Commitment Shortfall</div>
+                <div className="text-sm text-gray-600">
+                  {costs.contractProvider} usage is below the {money(state.commit_minimum_monthly)} monthly minimum
+                </div>
+              </div>
+              <div className="text-lg font-semibold text-amber-700">{money(costs.commitShortfall)}</div>
+            </div>
+          )}
+          <Separator />
+          <div className="flex justify-between items-center">
+            <span className="font-semibold text-gray-900">Total Monthly Cost</span>
+            <span className="text-xl font-bold text-blue-600">{money(costs.totalMonthly)}</span>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* RAG Infrastructure */}
+      {costs.rag.enabled && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">RAG Infrastructure</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-600">One-time corpus ingestion ({(costs.rag.oneTimeTokens / 1_000_000).toFixed(2)}M tokens):</span>
+              <span className="font-medium">{money(costs.rag.oneTimeCost)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Monthly re-embedding ({(costs.rag.churnTokens / 1_000_000).toFixed(2)}M tokens):</span>
+              <span className="font-medium">{money(costs.rag.churnTokens / 1_000_000 * costs.rag.embedding.input)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Monthly query embeddings ({(costs.rag.queryTokens / 1_000_000).toFixed(2)}M tokens):</span>
+              <span className="font-medium">{money(costs.rag.queryTokens / 1_000_000 * costs.rag.embedding.input)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Vector storage ({costs.rag.totalChunks.toLocaleString()} chunks, {costs.rag.storageGb.toFixed(2)} GB):</span>
+              <span className="font-medium">{money(costs.rag.storageCost)}/month</span>
+            </div>
+            <Separator />
+            <div className="flex justify-between">
+              <span className="font-semibold text-gray-900">First month incl. ingestion:</span>
+              <span className="font-semibold text-gray-900">{money(costs.totalMonthly + costs.rag.oneTimeCost)}</span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Effective Rate */}
+      {(state.volume_tiers.length > 0 || state.commit_discount_pct > 0 || state.commit_minimum_monthly > 0) && (
+        <EffectiveRateChart state={state} currency={currency} />
+      )}
+
+      {/* Per-Agent Breakdown */}
+      {costs.agentBreakdown.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Per-Agent Breakdown</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {costs.agentBreakdown.map((agent, i) => (
+              <CostRow
+                key={agent.id}
+                label={`${i + 1}. ${agent.name} (${agent.modelName})`}
+                value={agent.tokens}
+                cost={agent.cost}
+                currency={currency}
+                share={costs.listPriceMonthly > 0 ? agent.cost / costs.listPriceMonthly : 0}
+              />
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Realtime vs Batch */}
+      {state.batch_share_pct > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Realtime vs Batch</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="p-4 bg-gray-50 rounded">
+                <div className="text-xs uppercase tracking-wide text-gray-500 font-semibold mb-1">Realtime</div>
+                <div className="text-2xl font-bold text-gray-900">{money(costs.realtimeCost)}</div>
+                <div className="text-sm text-gray-600">{(100 - costs.batchShare * 100).toFixed(0)}% of transactions</div>
+              </div>
+              <div className="p-4 bg-gray-50 rounded">
+                <div className="text-xs uppercase tracking-wide text-gray-500 font-semibold mb-1">Batch</div>
+                <div className="text-2xl font-bold text-gray-900">{money(costs.batchCost)}</div>
+                <div className="text-sm text-gray-600">{(costs.batchShare * 100).toFixed(0)}% of transactions</div>
+              </div>
+            </div>
+            {costs.unbatchedModels.length > 0 && (
+              <p className="text-xs text-amber-700 mt-3">
+                {costs.unbatchedModels.map(model => model.name).join(', ')} {costs.unbatchedModels.length === 1 ? 'has' : 'have'} no batch API, so {costs.unbatchedModels.length === 1 ? 'its' : 'their'} traffic is billed at realtime rates.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Latency */}
+      <LatencyEstimate state={state} />
+
+      {/* Peak Throughput */}
+      <PeakThroughput state={state} />
+
+      {/* Volume Summary */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Configuration Summary</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-600">Transactions/Month:</span>
+            <span className="font-medium">{Math.round(costs.transactions).toLocaleString()}</span>
+          </div>
+          {state.channels.filter(channel => channel.volume > 0).map(channel => (
+            <div key={channel.id} className="flex justify-between pl-4">
+              <span className="text-gray-500">{channel.name}:</span>
+              <span>{Math.round(channelMonthlyVolume(channel)).toLocaleString()}</span>
+            </div>
+          ))}
+          <div className="flex justify-between">
+            <span className="text-gray-600">Model:</span>
+            <Badge variant="outline">
+              {costs.routes.length > 1 ? costs.modelMix : `${costs.modelMix} (${TIER_LABELS[costs.routes[0].model.tier]})`}
+            </Badge>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Agents:</span>
+            <span className="font-medium">{state.agents.length + 1}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Pricing Catalog:</span>
+            <span className="font-medium">{costs.pricingVersion}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Active Features:</span>
+            <span className="font-medium">
+              {[
+                state.rag_queries > 0 && 'RAG',
+                state.memory_ops > 0 && 'Memory',
+                state.db_queries > 0 && 'DB',
+                state.tool_calls > 0 && 'Tools',
+                state.reflection_passes > 0 && `Reflection (${state.reflection_passes}x)`
+              ].filter(Boolean).join(', ') || 'None'}
+            </span>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Sensitivity */}
+      <SensitivityAnalysis state={state} currency={currency} />
+
+      {/* Growth Projection */}
+      <GrowthProjection state={state} currency={currency} />
+
+      {/* Exchange Rates */}
+      <ExchangeRates currency={currency} onChange={onCurrencyChange} />
+    </div>
+  )
+}
+
+// Latency Estimate Component
+function LatencyEstimate({ state }: { state: EstimatorState }) {
+  const channels = state.channels
+    .filter(channel => channel.volume > 0)
+    .map(channel => ({ channel, latency: LatencyCalculator(state, channel) }))
+  if (channels.length === 0) return null
+
+  // Step breakdown for the slowest channel
+  const slowest = [...channels].sort((a, b) => b.latency.p50Ms - a.latency.p50Ms)[0]
+  const latency = slowest.latency
+  const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`
+  const tone = (ms: number, slaSeconds: number) => slaSeconds > 0 && ms > slaSeconds * 1000 ? 'text-red-700 font-medium' : ''
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Latency Per Transaction</CardTitle>
+        <CardDescription>End-to-end time through the agent chain, per channel</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Channel</TableHead>
+              <TableHead className="text-right">P50</TableHead>
+              <TableHead className="text-right">Worst Case</TableHead>
+              <TableHead className="text-right">SLA</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {channels.map(({ channel, latency }) => (
+              <TableRow key={channel.id}>
+                <TableCell>{channel.name}</TableCell>
+                <TableCell className={`text-right ${tone(latency.p50Ms, channel.sla_seconds)}`}>{seconds(latency.p50Ms)}</TableCell>
+                <TableCell className={`text-right ${tone(latency.worstMs, channel.sla_seconds)}`}>{seconds(latency.worstMs)}</TableCell>
+                <TableCell className="text-right">{channel.sla_seconds > 0 ? `${channel.sla_seconds}s` : 'none'}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <div className="space-y-2 text-sm">
+          <div className="text-xs uppercase tracking-wide text-gray-500 font-semibold">Steps: {slowest.channel.name}</div>
+          {latency.steps.map((step, i) => (
+            <div key={i} className="flex justify-between">
+              <span className="text-gray-600">{step.label}</span>
+              <span className="font-medium">{seconds(step.p50Ms)} <span className="text-gray-500">/ {seconds(step.worstMs)}</span></span>
+            </div>
+          ))}
+          {latency.retryMs > 0 && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Parse retry (worst case only)</span>
+              <span className="font-medium text-gray-500">{seconds(latency.retryMs)}</span>
+            </div>
+          )}
+          {latency.escalationMs > 0 && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Escalation (worst case only)</span>
+              <span className="font-medium text-gray-500">{seconds(latency.escalationMs)}</span>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+// Peak Throughput Component
+function PeakThroughput({ state }: { state: EstimatorState }) {
+  const throughput = ThroughputCalculator(state)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Peak Throughput</CardTitle>
+        <CardDescription>
+          {throughput.peakTransactionsPerMinute.toFixed(1)} transactions per minute in the busiest hour, against default per-key rate limits
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Model</TableHead>
+              <TableHead className="text-right">Peak RPM</TableHead>
+              <TableHead className="text-right">Peak TPM</TableHead>
+              <TableHead className="text-right">Utilization</TableHead>
+              <TableHead className="text-right">Keys</TableHead>
+              <TableHead className="text-right">Provisioned Units</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {throughput.models.map(demand => (
+              <TableRow key={demand.model.id}>
+                <TableCell>{demand.model.name}</TableCell>
+                <TableCell className="text-right">
+                  {Math.round(demand.peakRpm).toLocaleString()} / {demand.model.rpm.toLocaleString()}
+                </TableCell>
+                <TableCell className="text-right">
+                  {Math.round(demand.peakTpm).toLocaleString()} / {demand.model.tpm.toLocaleString()}
+                </TableCell>
+                <TableCell className={`text-right ${demand.utilization > 1 ? 'text-red-700 font-medium' : demand.utilization > 0.8 ? 'text-amber-700' : ''}`}>
+                  {Math.round(demand.utilization * 100)}%
+                </TableCell>
+                <TableCell className="text-right">{demand.keysRequired}</TableCell>
+                <TableCell className="text-right">{demand.provisionedUnits ?? 'n/a'}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
+
+// Cost Row Component
+function CostRow({
+  label,
+  value,
+  cost,
+  currency,
+  share,
+  detail,
+}: {
+  label: string
+  value: number
+  cost: number
+  currency: CurrencySettings
+  share?: number
+  detail?: string
+}) {
+  return (
+    <div className="p-3 bg-gray-50 rounded">
+      <div className="flex justify-between items-center">
+        <div>
+          <div className="font-medium text-gray-900">{label}</div>
+          <div className="text-sm text-gray-600">{detail ?? `${(value / 1_000_000).toFixed(2)}M tokens`}</div>
+        </div>
+        <div className="text-right">
+          <div className="text-lg font-semibold text-gray-900">{formatMoney(cost, currency)}</div>
+          {share !== undefined && (
+            <div className="text-xs text-gray-500">{(share * 100).toFixed(1)}% of total</div>
+          )}
+        </div>
+      </div>
+      {share !== undefined && (
+        <div className="h-1.5 bg-gray-200 rounded mt-2 overflow-hidden">
+          <div className="h-full bg-blue-500" style={{ width: `${Math.min(100, share * 100)}%` }} />
+        </div>
+      )}
+    </div>
+  )
+}
+
+const effectiveRateChartConfig: ChartConfig = {
+  listRate: { label: 'List Rate', color: 'hsl(var(--chart-2))' },
+  effectiveRate: { label: 'Effective Rate', color: 'hsl(var(--chart-1))' },
+}
+
+// Effective Rate Chart Component
+function EffectiveRateChart({ state, currency }: { state: EstimatorState; currency: CurrencySettings }) {
+  const points = useMemo(() => EffectiveRateCalculator(state), [state])
+  const costs = CostCalculator(state)
+  const currentMillionTokens = costs.contractTokens / 1_000_000
+
+  // Chart in the display currency so axis ticks and tooltips agree
+  const chartData = points.map(point => ({
+    ...point,
+    listRate: convertFromUsd(point.listRate, currency),
+    effectiveRate: convertFromUsd(point.effectiveRate, currency),
+  }))
+
+  if (chartData.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Effective Rate by Volume</CardTitle>
+        <CardDescription>{costs.contractProvider} model spend per million tokens under the contract terms, against list price</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ChartContainer config={effectiveRateChartConfig} className="aspect-auto h-[260px] w-full">
+          <LineChart data={chartData} margin={{ left: 12, right: 12 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="millionTokens"
+              type="number"
+              domain={[0, 'dataMax']}
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(v) => `${Math.round(v).toLocaleString()}M`}
+            />
+            <YAxis tickLine={false} axisLine={false} tickFormatter={(v) => formatMoney(convertToUsd(v, currency), currency)} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Line dataKey="listRate" stroke="var(--color-listRate)" strokeWidth={2} strokeDasharray="4 4" dot={false} />
+            <Line dataKey="effectiveRate" stroke="var(--color-effectiveRate)" strokeWidth={2} dot={false} />
+            {state.volume_tiers.map(tier => (
+              <ReferenceLine key={tier.id} x={tier.above_million_tokens} stroke="#6b7280" strokeDasharray="2 2" />
+            ))}
+            <ReferenceLine x={currentMillionTokens} stroke="#1e40af" label={{ value: 'Current', position: 'top', fontSize: 10 }} />
+          </LineChart>
+        </ChartContainer>
+        <p className="text-xs text-gray-500">
+          Below the commitment the minimum dominates and the effective rate climbs; above each tier threshold it steps down.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
+
+// ROI Summary Component
+function RoiSummary({ state, currency }: { state: EstimatorState; currency: CurrencySettings }) {
+  const roi = RoiCalculator(state)
+  const money = (amountUsd: number) => formatMoney(amountUsd, currency)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">ROI & Break-Even</CardTitle>
+        <CardDescription>
+          Against handling every transaction manually at {money(roi.humanCostPerTransaction)} each
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-4 text-center">
+          <div className="p-3 bg-gray-50 rounded">
+            <div className="text-xs uppercase tracking-wide text-gray-500 font-semibold mb-1">Monthly Savings</div>
+            <div className={`text-xl font-bold ${roi.monthlySavings >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+              {money(roi.monthlySavings)}
+            </div>
+          </div>
+          <div className="p-3 bg-gray-50 rounded">
+            <div className="text-xs uppercase tracking-wide text-gray-500 font-semibold mb-1">Payback</div>
+            <div className="text-xl font-bold text-gray-900">
+              {roi.paybackMonths === null ? 'Never' : roi.paybackMonths === 0 ? 'Immediate' : `${roi.paybackMonths.toFixed(1)} mo`}
+            </div>
+          </div>
+          <div className="p-3 bg-gray-50 rounded">
+            <div className="text-xs uppercase tracking-wide text-gray-500 font-semibold mb-1">Break-Even Volume</div>
+            <div className="text-xl font-bold text-gray-900">
+              {roi.breakEvenVolume === null ? 'None' : `${roi.breakEvenVolume.toLocaleString()}/mo`}
+            </div>
+          </div>
+        </div>
+        <div className="space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-600">Manual processing today:</span>
+            <span className="font-medium">{money(roi.manualMonthly)}/month</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">With the agent (incl. human review):</span>
+            <span className="font-medium">{money(roi.withAgentMonthly)}/month</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">One-time costs (implementation + ingestion):</span>
+            <span className="font-medium">{money(roi.oneTimeCost)}</span>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+// Routing Savings Component
+function RoutingSavings({ state, currency }: { state: EstimatorState; currency: CurrencySettings }) {
+  const comparison = RoutingComparison(state)
+  if (!comparison) return null
+  const money = (amountUsd: number) => formatMoney(amountUsd, currency)
+  const vsBaseline = (monthly: number) => monthly - comparison.baseline.totalMonthly
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Routing vs Single Model</CardTitle>
+        <CardDescription>
+          {comparison.blended.routes.map(route => `${Math.round(route.share * 100)}% ${route.model.name}`).join(', ')} against
+          sending all traffic to the configured model
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Configuration</TableHead>
+              <TableHead className="text-right">Monthly</TableHead>
+              <TableHead className="text-right">vs {comparison.baseline.model.name}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            <TableRow className="font-medium">
+              <TableCell>Routed mix (incl. classifier)</TableCell>
+              <TableCell className="text-right">{money(comparison.blended.totalMonthly)}</TableCell>
+              <TableCell className={`text-right ${comparison.savings >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+                {money(vsBaseline(comparison.blended.totalMonthly))}
+              </TableCell>
+            </TableRow>
+            <TableRow>
+              <TableCell>All traffic on {comparison.baseline.model.name} (configured model)</TableCell>
+              <TableCell className="text-right">{money(comparison.baseline.totalMonthly)}</TableCell>
+              <TableCell className="text-right">baseline</TableCell>
+            </TableRow>
+            {comparison.singleModel.map(costs => (
+              <TableRow key={costs.model.id}>
+                <TableCell>All traffic on {costs.model.name}</TableCell>
+                <TableCell className="text-right">{money(costs.totalMonthly)}</TableCell>
+                <TableCell className="text-right">{money(vsBaseline(costs.totalMonthly))}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <div className="text-sm text-gray-600">
+          {comparison.savings >= 0
+            ? `Routing saves ${money(comparison.savings)}/month (${comparison.savingsPct.toFixed(0)}%) against ${comparison.baseline.model.name} alone.`
+            : `Routing costs ${money(-comparison.savings)}/month more than ${comparison.baseline.model.name} alone once the classifier overhead is included.`}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+const histogramChartConfig: ChartConfig = {
+  count: { label: 'Simulations', color: 'hsl(var(--chart-1))' },
+}
+
+// Cost Uncertainty Component
+function CostUncertainty({ state, currency }: { state: EstimatorState; currency: CurrencySettings }) {
+  const simulation = useMemo(() => MonteCarloSimulator(state), [state])
+  const money = (amountUsd: number) => formatMoney(amountUsd, currency)
+
+  const histogram = simulation.histogram.map(bin => ({
+    ...bin,
+    label: formatMoney(bin.midpoint, currency, { maximumFractionDigits: 0 }),
+  }))
+
+  // Bin whose range contains a value, for marking percentiles on the category axis
+  const binLabel = (value: number) => histogram
+    .filter(bin => bin.from <= value)
+    .slice(-1)[0]?.label
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Cost Uncertainty</CardTitle>
+        <CardDescription>
+          {SIMULATION_RUNS.toLocaleString()} simulated months over the ranges set in the estimator
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-4 text-center">
+          {([['P10', simulation.p10], ['P50', simulation.p50], ['P90', simulation.p90]] as const).map(([label, value]) => (
+            <div key={label} className="p-3 bg-gray-50 rounded">
+              <div className="text-xs uppercase tracking-wide text-gray-500 font-semibold mb-1">{label}</div>
+              <div className="text-xl font-bold text-gray-900">{money(value)}</div>
+            </div>
+          ))}
+        </div>
+
+        <ChartContainer config={histogramChartConfig} className="aspect-auto h-[220px] w-full">
+          <BarChart data={histogram} margin={{ left: 12, right: 12 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} interval={3} />
+            <YAxis tickLine={false} axisLine={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="count" fill="var(--color-count)" radius={2} />
+            {([['P10', simulation.p10], ['P50', simulation.p50], ['P90', simulation.p90]] as const).map(([label, value]) => (
+              <ReferenceLine key={label} x={binLabel(value)} stroke="#1e40af" strokeDasharray="4 4" label={{ value: label, position: 'top', fontSize: 10 }} />
+            ))}
+          </BarChart>
+        </ChartContainer>
+
+        <p className="text-xs text-gray-500">
+          There is an 80% chance the monthly bill lands between {money(simulation.p10)} and {money(simulation.p90)}.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
+
+// Uncertainty Range Input Component
+function UncertaintyRangeInput({
+  label,
+  range,
+  onChange,
+}: {
+  label: string
+  range: UncertaintyRange
+  onChange: (range: UncertaintyRange) => void
+}) {
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <label className="text-sm font-medium flex-1">{label}</label>
+      <div className="flex items-center gap-2 text-sm text-gray-600">
+        <span>-</span>
+        <Input
+          type="number"
+          min={0}
+          max={100}
+          value={range.low_pct}
+          onChange={e => onChange({ ...range, low_pct: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+          className="w-20"
+        />
+        <span>% / +</span>
+        <Input
+          type="number"
+          min={0}
+          value={range.high_pct}
+          onChange={e => onChange({ ...range, high_pct: Math.max(0, Number(e.target.value) || 0) })}
+          className="w-20"
+        />
+        <span>%</span>
+      </div>
+    </div>
+  )
+}
+
+const tornadoChartConfig: ChartConfig = {
+  lowDelta: { label: 'Decrease', color: 'hsl(var(--chart-2))' },
+  highDelta: { label: 'Increase', color: 'hsl(var(--chart-1))' },
+}
+
+// Sensitivity Analysis Component
+function SensitivityAnalysis({ state, currency }: { state: EstimatorState; currency: CurrencySettings }) {
+  const [variationPct, setVariationPct] = useState(20)
+  const { base, results } = useMemo(() => SensitivityAnalyzer(state, variationPct), [state, variationPct])
+  const money = (amountUsd: number) => formatMoney(amountUsd, currency)
+
+  // Chart in the display currency so axis ticks and tooltips agree
+  const chartData = results.map(result => ({
+    ...result,
+    lowDelta: convertFromUsd(result.lowDelta, currency),
+    highDelta: convertFromUsd(result.highDelta, currency),
+  }))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Sensitivity Analysis</CardTitle>
+        <CardDescription>
+          Change in monthly cost when each input moves ±{variationPct}% (model tier moves one tier down or up)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <label className="text-sm font-medium">Variation</label>
+          <Select value={String(variationPct)} onValueChange={(val) => setVariationPct(Number(val))}>
+            <SelectTrigger className="w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="10">±10%</SelectItem>
+              <SelectItem value="20">±20%</SelectItem>
+              <SelectItem value="50">±50%</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {results.length === 0 ? (
+          <p className="text-sm text-gray-500">No input changes the monthly cost.</p>
+        ) : (
+          <ChartContainer config={tornadoChartConfig} className="aspect-auto w-full" style={{ height: results.length * 36 + 40 }}>
+            <BarChart data={chartData} layout="vertical" stackOffset="sign" margin={{ left: 12, right: 12 }}>
+              <CartesianGrid horizontal={false} />
+              <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={(v) => formatMoney(convertToUsd(v, currency), currency, { maximumFractionDigits: 0, signDisplay: 'exceptZero' })} />
+              <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={120} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ReferenceLine x={0} stroke="#6b7280" />
+              <Bar dataKey="lowDelta" stackId="swing" fill="var(--color-lowDelta)" radius={2} />
+              <Bar dataKey="highDelta" stackId="swing" fill="var(--color-highDelta)" radius={2} />
+            </BarChart>
+          </ChartContainer>
+        )}
+
+        {results.length > 0 && (
+          <p className="text-xs text-gray-500">
+            Baseline {money(base)}/month. Validate <span className="font-medium">{results[0].label}</span> first:
+            it swings the estimate between {money(results[0].low)} and {money(results[0].high)}.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+const projectionChartConfig: ChartConfig = {
+  monthlyCost: { label: 'Monthly Cost', color: 'hsl(var(--chart-1))' },
+  cumulative: { label: 'Cumulative Spend', color: 'hsl(var(--chart-2))' },
+}
+
+// Growth Projection Component
+function GrowthProjection({ state, currency }: { state: EstimatorState; currency: CurrencySettings }) {
+  const [settings, setSettings] = useState<Omit<ProjectionSettings, 'budget_thresholds'>>({
+    start_volume: Math.round(monthlyTransactions(state)),
+    growth_pct: 10,
+    volume_ceiling: 0,
+    horizon_months: 12,
+  })
+  // Thresholds are typed in the display currency
+  const [thresholdInput, setThresholdInput] = useState('1000, 5000, 10000')
+  const thresholds = thresholdInput.split(',').map(v => Number(v.trim())).filter(v => v > 0)
+
+  const projection = GrowthProjectionCalculator(state, {
+    ...settings,
+    budget_thresholds: thresholds.map(threshold => convertToUsd(threshold, currency)),
+  })
+  const money = (amountUsd: number, options?: Intl.NumberFormatOptions) => formatMoney(amountUsd, currency, options)
+
+  // Chart in the display currency so axis ticks, tooltips and budget lines agree
+  const chartData = projection.months.map(month => ({
+    ...month,
+    monthlyCost: convertFromUsd(month.monthlyCost, currency),
+    cumulative: convertFromUsd(month.cumulative, currency),
+  }))
+  const axisTick = (value: number) => money(convertToUsd(value, currency), { maximumFractionDigits: 0 })
+
+  const updateNumber = (key: keyof typeof settings, value: string) => {
+    setSettings(prev => ({ ...prev, [key]: Math.max(0, Number(value) || 0) }))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Growth Projection</CardTitle>
+        <CardDescription>Monthly and cumulative spend as volume compounds</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="text-sm font-medium mb-2 block">Start Volume (transactions/month)</label>
+            <Input type="number" min={0} value={settings.start_volume} onChange={e => updateNumber('start_volume', e.target.value)} />
+          </div>
+          <div>
+            <label className="text-sm font-medium mb-2 block">Monthly Growth (%)</label>
+            <Input type="number" min={0} value={settings.growth_pct} onChange={e => updateNumber('growth_pct', e.target.value)} />
+          </div>
+          <div>
+            <label className="text-sm font-medium mb-2 block">Volume Ceiling (0 = none)</label>
+            <Input type="number" min={0} value={settings.volume_ceiling} onChange={e => updateNumber('volume_ceiling', e.target.value)} />
+          </div>
+          <div>
+            <label className="text-sm font-medium mb-2 block">Horizon</label>
+            <Select value={String(settings.horizon_months)} onValueChange={(val) => updateNumber('horizon_months', val)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="12">12 months</SelectItem>
+                <SelectItem value="24">24 months</SelectItem>
+                <SelectItem value="36">36 months</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-2">
+            <label className="text-sm font-medium mb-2 block">Monthly Budget Thresholds ({currency.code}, comma-separated)</label>
+            <Input value={thresholdInput} onChange={e => setThresholdInput(e.target.value)} />
+          </div>
+        </div>
+
+        <ChartContainer config={projectionChartConfig} className="aspect-auto h-[300px] w-full">
+          <ComposedChart data={chartData} margin={{ left: 12, right: 12 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="month" tickLine={false} axisLine={false} tickFormatter={(m) => `M${m}`} />
+            <YAxis yAxisId="monthly" tickLine={false} axisLine={false} tickFormatter={axisTick} />
+            <YAxis yAxisId="cumulative" orientation="right" tickLine={false} axisLine={false} tickFormatter={axisTick} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar yAxisId="monthly" dataKey="monthlyCost" fill="var(--color-monthlyCost)" radius={2} />
+            <Line yAxisId="cumulative" dataKey="cumulative" stroke="var(--color-cumulative)" strokeWidth={2} dot={false} />
+            {thresholds.map(threshold => (
+              <ReferenceLine key={threshold} yAxisId="monthly" y={threshold} stroke="#dc2626" strokeDasharray="4 4" />
+            ))}
+          </ComposedChart>
+        </ChartContainer>
+
+        <div className="space-y-2 text-sm">
+          {projection.thresholdCrossings.map(crossing => (
+            <div key={crossing.threshold} className="flex justify-between">
+              <span className="text-gray-600">{money(crossing.threshold, { maximumFractionDigits: 0 })}/month budget:</span>
+              <span className="font-medium">
+                {crossing.month ? `crossed in month ${crossing.month}` : `not reached in ${settings.horizon_months} months`}
+              </span>
+            </div>
+          ))}
+          <Separator />
+          <div className="flex justify-between">
+            <span className="font-semibold text-gray-900">Cumulative spend over {settings.horizon_months} months:</span>
+            <span className="font-semibold text-gray-900">{money(projection.totalSpend)}</span>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+// Exchange Rates Component
+function ExchangeRates({ currency, onChange }: { currency: CurrencySettings; onChange: (currency: CurrencySettings) => void }) {
+  // Raw text per row while editing, so clearing a field or typing "0.9"
+  // digit by digit is not snapped back to the last committed rate
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+
+  const updateRate = (code: string, value: string) => {
+    setDrafts(prev => ({ ...prev, [code]: value }))
+    const per_usd = Number(value)
+    if (value.trim() === '' || !(per_usd > 0)) return
+    onChange({
+      ...currency,
+      rates: currency.rates.map(rate => rate.code === code ? { ...rate, per_usd } : rate),
+    })
+  }
+
+  // Leaving a field shows the committed rate again, dropping invalid text
+  const clearDraft = (code: string) => setDrafts(({ [code]: _, ...rest }) => rest)
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-lg">Exchange Rates</CardTitle>
+          <CardDescription>Units per {BASE_CURRENCY}, edited locally (defaults as of {EXCHANGE_RATES_AS_OF})</CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            setDrafts({})
+            onChange({ ...currency, rates: DEFAULT_EXCHANGE_RATES })
+          }}
+        >
+          Reset
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Currency</TableHead>
+              <TableHead className="text-right">Per {BASE_CURRENCY}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {currency.rates.map(rate => (
+              <TableRow key={rate.code}>
+                <TableCell>
+                  <span className="font-medium">{rate.code}</span>
+                  <span className="text-gray-500 ml-2">{rate.name}</span>
+                </TableCell>
+                <TableCell className="text-right">
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    className="w-32 ml-auto text-right"
+                    value={drafts[rate.code] ?? String(rate.per_usd)}
+                    disabled={rate.code === BASE_CURRENCY}
+                    onChange={e => updateRate(rate.code, e.target.value)}
+                    onBlur={() => clearDraft(rate.code)}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
+
+const BUDGET_SOLVE_DELAY_MS = 400
+
+// Budget Solver Component
+function BudgetSolverTab({
+  state,
+  workflowData,
+  currency,
+}: {
+  state: EstimatorState
+  workflowData: WorkflowData | null
+  currency: CurrencySettings
+}) {
+  // Entered in the display currency; the solver works in USD
+  const [budgetInput, setBudgetInput] = useState(500)
+  const [budget, setBudget] = useState(budgetInput)
+  const [free, setFree] = useState<SolverVariable[]>(['transactions', 'model'])
+
+  // Solving can take a second or more, so wait for typing to pause
+  useEffect(() => {
+    const timer = setTimeout(() => setBudget(budgetInput), BUDGET_SOLVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [budgetInput])
+
+  const solutions = useMemo(() => {
+    const reference = workflowData ? estimatorStateFromWorkflow(workflowData) : state
+    return BudgetSolver(state, reference, convertToUsd(budget, currency), free)
+  }, [state, workflowData, budget, free, currency])
+
+  const toggleVariable = (id: SolverVariable) => {
+    setFree(prev => prev.includes(id) ? prev.filter(v => v !== id) : [...prev, id])
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Budget Solver</CardTitle>
+          <CardDescription>
+            Start from a monthly budget and find configurations that fit, closest to {workflowData ? 'the extracted workflow' : 'the current estimate'} first
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <label className="text-sm font-medium mb-2 block">Target Monthly Budget ({currency.code})</label>
+            <Input type="number" min={0} value={budgetInput} onChange={e => setBudgetInput(Math.max(0, Number(e.target.value) || 0))} />
+          </div>
+          <div>
+            <label className="text-sm font-medium mb-2 block">Variables the solver may change</label>
+            <div className="space-y-2">
+              {SOLVER_VARIABLES.map(variable => (
+                <FeatureToggle
+                  key={variable.id}
+                  label={variable.label}
+                  enabled={free.includes(variable.id)}
+                  onToggle={() => toggleVariable(variable.id)}
+                />
+              ))}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Feasible Configurations</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {solutions.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              Nothing fits within {formatMoney(convertToUsd(budget, currency), currency)}/month. Raise the budget or free up more variables.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Model</TableHead>
+                  <TableHead className="text-right">Transactions</TableHead>
+                  <TableHead className="text-right">RAG</TableHead>
+                  <TableHead>Dropped</TableHead>
+                  <TableHead className="text-right">Monthly</TableHead>
+                  <TableHead className="text-right">Match</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {solutions.map((solution, i) => (
+                  <TableRow key={i}>
+                    <TableCell>{primaryModelMix(solution.state)}</TableCell>
+                    <TableCell className="text-right">{Math.round(monthlyTransactions(solution.state)).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{solution.state.rag_queries}</TableCell>
+                    <TableCell>{solution.droppedFeatures.join(', ') || '-'}</TableCell>
+                    <TableCell className="text-right">{formatMoney(solution.monthlyCost, currency)}</TableCell>
+                    <TableCell className="text-right">{Math.round(100 / (1 + solution.distance))}%</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
     </div>
   )
 }
@@ -895,35 +2841,13 @@ function ScenarioRow({
 // Main App
 export default function HomePage() {
   const [workflowData, setWorkflowData] = useState<WorkflowData | null>(null)
-  const [estimatorState, setEstimatorState] = useState<EstimatorState>({
-    transactions_per_month: 100,
-    input_tokens: 500,
-    output_tokens: 800,
-    inter_agent_interactions: 1,
-    rag_queries: 0,
-    db_queries: 0,
-    tool_calls: 0,
-    memory_ops: 0,
-    reflection_enabled: false,
-    model_tier: 'standard',
-  })
+  const [estimatorState, setEstimatorState] = useState<EstimatorState>(DEFAULT_ESTIMATOR_STATE)
+  const [currency, setCurrency] = useState<CurrencySettings>(DEFAULT_CURRENCY_SETTINGS)
 
   const handleWorkflowExtracted = (data: WorkflowData) => {
     setWorkflowData(data)
     // Auto-populate estimator state from workflow
-    setEstimatorState({
-      transactions_per_month: data.volume_estimates.workflows_per_day * 22 || 100,
-      input_tokens: data.token_estimates.input_tokens || 500,
-      output_tokens: data.token_estimates.output_tokens || 800,
-      inter_agent_interactions: data.agents_required || 1,
-      rag_queries: data.features.rag ? 5 : 0,
-      db_queries: data.features.db_queries || 0,
-      tool_calls: data.features.tool_calls || 0,
-      memory_ops: data.features.memory ? 2 : 0,
-      reflection_enabled: data.features.reflection || false,
-      model_tier: data.recommended_model?.includes('Budget') ? 'budget' :
-                  data.recommended_model?.includes('Premium') ? 'premium' : 'standard',
-    })
+    setEstimatorState(estimatorStateFromWorkflow(data))
   }
 
   return (
@@ -935,10 +2859,11 @@ export default function HomePage() {
         </div>
 
         <Tabs defaultValue="chat" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="chat">Discovery Chat</TabsTrigger>
             <TabsTrigger value="estimator">Cost Estimator</TabsTrigger>
             <TabsTrigger value="results">Results</TabsTrigger>
+            <TabsTrigger value="solver">Budget Solver</TabsTrigger>
           </TabsList>
 
           <TabsContent value="chat" className="mt-6">
@@ -1117,11 +3042,15 @@ export default function HomePage() {
           </TabsContent>
 
           <TabsContent value="estimator" className="mt-6">
-            <EstimatorTab initialData={workflowData} onStateChange={setEstimatorState} />
+            <EstimatorTab initialState={estimatorState} onStateChange={setEstimatorState} />
           </TabsContent>
 
           <TabsContent value="results" className="mt-6">
-            <ResultsTab state={estimatorState} />
+            <ResultsTab state={estimatorState} currency={currency} onCurrencyChange={setCurrency} />
+          </TabsContent>
+
+          <TabsContent value="solver" className="mt-6">
+            <BudgetSolverTab state={estimatorState} workflowData={workflowData} currency={currency} />
           </TabsContent>
         </Tabs>
       </div>
@@ -0,0 +1,187 @@
+/**
+ * Command-line Cost Estimator
+ *
+ * Prices saved workflow extractions (the JSON the discovery chat's
+ * "Download JSON" button produces) with the same engine as the app.
+ *
+ * @example
+ * ```sh
+ * npm run estimate -- workflow-extraction.json
+ * npm run estimate -- --currency EUR extractions/*.json
+ * npm run estimate -- --json extractions/*.json > estimates.json
+ * ```
+ */
+
+import { readFileSync } from 'fs'
+import { basename } from 'path'
+import {
+  CostCalculator,
+  estimatorStateFromWorkflow,
+  validateEstimate,
+  type CostEstimate,
+  type EstimateIssue,
+  type WorkflowData,
+} from '../src/utils/costEngine'
+import { DEFAULT_CURRENCY_SETTINGS, convertFromUsd, formatMoney, type CurrencySettings } from '../src/utils/currency'
+
+const USAGE = `Usage: npm run estimate -- [--json] [--currency <code>] <workflow.json>...
+
+Options:
+  --json             Print estimates as a JSON array instead of tables
+  --currency <code>  Display currency from the default exchange-rate table (default USD)
+  --help             Show this message`
+
+interface Estimate {
+  file: string
+  costs: CostEstimate
+  issues: EstimateIssue[]
+}
+
+function parseArgs(argv: string[]) {
+  const files: string[] = []
+  let json = false
+  let currencyCode = DEFAULT_CURRENCY_SETTINGS.code
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === '--json') json = true
+    else if (arg === '--currency') currencyCode = (argv[++i] || '').toUpperCase()
+    else if (arg === '--help' || arg === '-h') return null
+    else if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`)
+    else files.push(arg)
+  }
+
+  const currency: CurrencySettings = { ...DEFAULT_CURRENCY_SETTINGS, code: currencyCode }
+  if (!currency.rates.some(rate => rate.code === currencyCode)) {
+    throw new Error(`Unknown currency ${currencyCode} (known: ${currency.rates.map(rate => rate.code).join(', ')})`)
+  }
+
+  return { files, json, currency }
+}
+
+// Minimal shape check so a wrong file fails with a readable message instead of NaN costs
+function parseWorkflow(text: string): WorkflowData {
+  const data = JSON.parse(text)
+  for (const key of ['features', 'volume_estimates', 'token_estimates'] as const) {
+    if (!data || typeof data[key] !== 'object' || data[key] === null) {
+      throw new Error(`missing "${key}" - is this a workflow extraction?`)
+    }
+  }
+  return {
+    ...data,
+    channels: Array.isArray(data.channels) ? data.channels : [],
+    complexity_tier: ['Low', 'Medium', 'High'].includes(data.complexity_tier) ? data.complexity_tier : 'Medium',
+  }
+}
+
+function estimateFile(file: string): Estimate {
+  const state = estimatorStateFromWorkflow(parseWorkflow(readFileSync(file, 'utf8')))
+  return { file, costs: CostCalculator(state), issues: validateEstimate(state) }
+}
+
+function renderTable(rows: string[][]): string {
+  const widths = rows[0].map((_, col) => Math.max(...rows.map(row => row[col].length)))
+  return rows
+    .map(row => row.map((cell, col) => col === 0 ? cell.padEnd(widths[col]) : cell.padStart(widths[col])).join('  '))
+    .join('\n')
+}
+
+function printBreakdown({ file, costs, issues }: Estimate, currency: CurrencySettings) {
+  const money = (amountUsd: number) => formatMoney(amountUsd, currency)
+  const rows = [
+    ['Item', 'Volume', 'Monthly'],
+    ...costs.lineItems.map(item => [
+      item.label,
+      item.detail ?? `${Math.round(item.tokens).toLocaleString()} tokens`,
+      money(item.cost),
+    ]),
+  ]
+  if (costs.batchSavings > 0) rows.push(['Batch Discount', '', money(-costs.batchSavings)])
+  if (costs.tierSavings > 0) rows.push(['Volume Tier Discount', '', money(-costs.tierSavings)])
+  if (costs.commitDiscount > 0) rows.push(['Committed-Use Discount', '', money(-costs.commitDiscount)])
+  if (costs.commitShortfall > 0) rows.push(['Commitment Shortfall', '', money(costs.commitShortfall)])
+  rows.push(['Total', '', money(costs.totalMonthly)])
+
+  console.log(`\n${file} - ${costs.modelMix}, pricing catalog ${costs.pricingVersion}`)
+  console.log(renderTable(rows))
+  console.log(`Annual: ${money(costs.totalAnnual)}`)
+  for (const issue of issues) {
+    console.log(`${issue.severity.toUpperCase()}: ${issue.message} ${issue.suggestion}`)
+  }
+}
+
+function printSummary(estimates: Estimate[], currency: CurrencySettings) {
+  const rows = [
+    ['File', 'Model', 'Monthly', 'Annual', 'Issues'],
+    ...estimates.map(({ file, costs, issues }) => [
+      basename(file),
+      costs.modelMix,
+      formatMoney(costs.totalMonthly, currency),
+      formatMoney(costs.totalAnnual, currency),
+      String(issues.length),
+    ]),
+  ]
+  console.log('\n' + renderTable(rows))
+}
+
+function toJson({ file, costs, issues }: Estimate, currency: CurrencySettings) {
+  const amount = (usd: number) => Math.round(convertFromUsd(usd, currency) * 100) / 100
+  return {
+    file,
+    currency: currency.code,
+    model: costs.model.id,
+    ...(costs.routes.length > 1 ? { routes: costs.routes.map(route => ({ model: route.model.id, share: route.share })) } : {}),
+    pricing_version: costs.pricingVersion,
+    line_items: costs.lineItems.map(item => ({
+      id: item.id,
+      label: item.label,
+      kind: item.kind,
+      tokens: Math.round(item.tokens),
+      ...(item.detail ? { detail: item.detail } : {}),
+      cost: amount(item.cost),
+    })),
+    batch_savings: amount(costs.batchSavings),
+    tier_savings: amount(costs.tierSavings),
+    commit_discount: amount(costs.commitDiscount),
+    commit_shortfall: amount(costs.commitShortfall),
+    total_monthly: amount(costs.totalMonthly),
+    total_annual: amount(costs.totalAnnual),
+    issues,
+  }
+}
+
+function main() {
+  let args: ReturnType<typeof parseArgs>
+  try {
+    args = parseArgs(process.argv.slice(2))
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`)
+    process.exit(2)
+  }
+  if (!args || args.files.length === 0) {
+    console.log(USAGE)
+    process.exit(args ? 2 : 0)
+  }
+
+  const estimates: Estimate[] = []
+  let failed = 0
+  for (const file of args.files) {
+    try {
+      estimates.push(estimateFile(file))
+    } catch (error) {
+      failed++
+      console.error(`Skipping ${file}: ${(error as Error).message}`)
+    }
+  }
+
+  if (args.json) {
+    console.log(JSON.stringify(estimates.map(estimate => toJson(estimate, args.currency)), null, 2))
+  } else {
+    for (const estimate of estimates) printBreakdown(estimate, args.currency)
+    if (estimates.length > 1) printSummary(estimates, args.currency)
+  }
+
+  process.exit(failed > 0 ? 1 : 0)
+}
+
+main()
@@ -0,0 +1,505 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  DEFAULT_ESTIMATOR_STATE,
+  BudgetSolver,
+  ConversationCalculator,
+  CostCalculator,
+  MultimodalCalculator,
+  RoiCalculator,
+  RoutingComparison,
+  SensitivityAnalyzer,
+  ThroughputCalculator,
+  applyVolumeTiers,
+  channelMonthlyVolume,
+  createAgent,
+  channelsFromWorkflow,
+  monthlyTransactions,
+  primaryRoutes,
+  validateEstimate,
+  withMonthlyVolume,
+  type ChannelStream,
+  type EstimatorState,
+  type ModelRoute,
+  type WorkflowData,
+} from './costEngine'
+import { TRANSCRIPTION_PER_MINUTE, getModelPricing } from './pricingCatalog'
+
+// 100k email requests of 1,000 input and 500 output tokens on GPT-4o mini,
+// with retries and review off so every dollar is traceable: $15 input + $30 output
+const EMAIL: ChannelStream = {
+  ...DEFAULT_ESTIMATOR_STATE.channels[0],
+  volume: 100_000,
+  input_tokens: 1000,
+  output_tokens: 500,
+}
+
+function testState(overrides: Partial<EstimatorState> = {}): EstimatorState {
+  return {
+    ...DEFAULT_ESTIMATOR_STATE,
+    channels: [EMAIL],
+    model_id: 'gpt-4o-mini',
+    parse_retry_pct: 0,
+    tool_failure_pct: 0,
+    review_pct: 0,
+    ...overrides,
+  }
+}
+
+function conversation(overrides: Partial<ChannelStream>): ChannelStream {
+  return {
+    ...EMAIL,
+    workload: 'conversation',
+    input_tokens: 100,
+    output_tokens: 100,
+    turns_per_session: 4,
+    history_window_turns: 1,
+    summary_tokens: 50,
+    ...overrides,
+  }
+}
+
+function routed(routes: ModelRoute[], overrides: Partial<EstimatorState> = {}): EstimatorState {
+  return testState({ routing: { ...DEFAULT_ESTIMATOR_STATE.routing, enabled: true, routes }, ...overrides })
+}
+
+const MINI_AND_4O: ModelRoute[] = [{ id: 'mini', model_id: 'gpt-4o-mini', share_pct: 80 }, { id: '4o', model_id: 'gpt-4o', share_pct: 20 }]
+
+function assertClose(actual: number, expected: number, tolerance = 1e-6) {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `expected ${actual} to be within ${tolerance} of ${expected}`)
+}
+
+const WORKFLOW: WorkflowData = {
+  business_problem: 'Slow invoice handling',
+  workflow_description: 'Extract totals from PDF invoices and answer supplier questions',
+  use_case_category: 'Finance',
+  channels: ['Email', 'Chat'],
+  complexity_tier: 'Medium',
+  recommended_model: 'Claude Sonnet 4',
+  agents_required: 1,
+  features: { rag: false, memory: false, db_queries: 0, tool_calls: 0, reflection: false },
+  volume_estimates: { emails_per_month: 200, chats_per_month: 50, docs_per_month: 10, workflows_per_day: 0 },
+  token_estimates: { input_tokens: 1200, output_tokens: 400, inter_agent_tokens: 0 },
+}
+
+describe('CostCalculator', () => {
+  it('prices each channel as input and output line items', () => {
+    const costs = CostCalculator(testState())
+
+    assert.deepEqual(costs.lineItems.map(item => item.id), ['input:email', 'output:email'])
+    assertClose(costs.inputTokens, 100_000_000)
+    assertClose(costs.inputCost, 15)
+    assertClose(costs.outputCost, 30)
+    assertClose(costs.totalMonthly, 45)
+    assertClose(costs.totalAnnual, 540)
+  })
+
+  it('sums channels with their own token profiles', () => {
+    const chat: ChannelStream = { ...EMAIL, id: 'chat', name: 'Chat', volume: 10_000, input_tokens: 200, output_tokens: 100 }
+    const costs = CostCalculator(testState({ channels: [EMAIL, chat] }))
+
+    // Chat adds 2M input tokens ($0.30) and 1M output tokens ($0.60)
+    assertClose(costs.transactions, 110_000)
+    assertClose(costs.lineItems.find(item => item.id === 'input:chat')?.cost ?? 0, 0.3)
+    assertClose(costs.totalMonthly, 45 + 0.9)
+  })
+
+  it('bills one primary call per conversation turn, with resent history', () => {
+    const chat = conversation({ id: 'chat', name: 'Chat', volume: 1000, history_strategy: 'full' })
+    const costs = CostCalculator(testState({ channels: [chat] }))
+
+    assert.equal(costs.primaryCalls, 4000)
+    assertClose(costs.lineItems.find(item => item.id === 'input:chat')?.tokens ?? 0, 400_000)
+    assertClose(costs.lineItems.find(item => item.id === 'history:chat')?.tokens ?? 0, 1_200_000)
+    assertClose(costs.lineItems.find(item => item.id === 'output:chat')?.tokens ?? 0, 400_000)
+  })
+
+  it('resends retrieved context and attachments with every conversation turn', () => {
+    const request = { ...EMAIL, volume: 1000, images: 1 }
+    const single = CostCalculator(testState({ channels: [request], rag_queries: 5 }))
+    const sessions = CostCalculator(testState({ channels: [conversation({ volume: 1000, images: 1, turns_per_session: 6 })], rag_queries: 5 }))
+    const tokens = (costs: ReturnType<typeof CostCalculator>, id: string) => costs.lineItems.find(item => item.id === id)?.tokens ?? 0
+
+    // 1000 sessions of 6 turns make 6000 calls, each with its own context
+    assert.equal(sessions.primaryCalls, 6000)
+    assertClose(tokens(sessions, 'rag'), 6 * tokens(single, 'rag'))
+    assertClose(tokens(sessions, 'images'), 6 * tokens(single, 'images'))
+  })
+
+  it('bills transcription for audio the model cannot hear', () => {
+    const costs = CostCalculator(testState({ channels: [{ ...EMAIL, volume: 1000, audio_minutes: 2 }] }))
+    const transcription = costs.lineItems.find(item => item.id === 'transcription')
+
+    assert.equal(transcription?.kind, 'service')
+    assertClose(transcription?.cost ?? 0, 2000 * TRANSCRIPTION_PER_MINUTE)
+    assertClose(costs.lineItems.find(item => item.id === 'transcripts')?.tokens ?? 0, 2000 * 200)
+  })
+
+  it('adds reviewer time and custom items on top of model spend', () => {
+    const costs = CostCalculator(testState({
+      review_pct: 1,
+      review_minutes: 6,
+      reviewer_hourly_rate: 40,
+      custom_items: [
+        { id: 'sms', name: 'SMS', pricing: 'per_unit', unit_price: 0.01, units_per_transaction: 2, monthly_amount: 0 },
+        { id: 'crm', name: 'CRM', pricing: 'monthly', unit_price: 0, units_per_transaction: 0, monthly_amount: 50 },
+      ],
+    }))
+
+    assertClose(costs.humanReviewCost, 4000)
+    assertClose(costs.customCost, 2050)
+    assert.ok(costs.lineItems.some(item => item.id === 'custom:sms' && item.kind === 'custom'))
+    assertClose(costs.totalMonthly, 45 + 4000 + 2050)
+  })
+
+  it('keeps custom items out of contract discounts', () => {
+    const custom_items = [{ id: 'crm', name: 'CRM', pricing: 'monthly' as const, unit_price: 0, units_per_transaction: 0, monthly_amount: 50 }]
+    const costs = CostCalculator(testState({ custom_items, commit_discount_pct: 10 }))
+
+    assertClose(costs.totalMonthly, 45 * 0.9 + 50)
+  })
+
+  it('bills the batch share at the batch rate', () => {
+    const costs = CostCalculator(testState({ batch_share_pct: 50 }))
+
+    assertClose(costs.batchSavings, 11.25)
+    assertClose(costs.totalMonthly, 45 - 11.25)
+  })
+
+  it('applies each model its own batch discount', () => {
+    const agent = createAgent(2, 'deepseek-v3', 1000)
+    const realtime = CostCalculator(testState({ agents: [agent] }))
+    const batched = CostCalculator(testState({ agents: [agent], batch_share_pct: 50 }))
+
+    // Half of GPT-4o mini's $45 at half price; DeepSeek V3 has no batch API
+    assertClose(batched.batchSavings, 11.25)
+    assertClose(batched.totalMonthly, realtime.totalMonthly - 11.25)
+    assert.deepEqual(batched.unbatchedModels.map(model => model.id), ['deepseek-v3'])
+  })
+
+  it('limits contract terms to the contract provider', () => {
+    const agent = createAgent(2, 'deepseek-v3', 1000)
+    const volume_tiers = [{ id: 'tier', above_million_tokens: 0, discount_pct: 20 }]
+
+    // GPT-4o mini spend is $45, the DeepSeek V3 agent's $60
+    assertClose(CostCalculator(testState({ agents: [agent], volume_tiers })).tierSavings, 9)
+    assertClose(CostCalculator(testState({ agents: [agent], volume_tiers, contract_provider: 'DeepSeek' })).tierSavings, 12)
+    assertClose(CostCalculator(testState({ agents: [agent], volume_tiers, contract_provider: 'Anthropic' })).tierSavings, 0)
+    assertClose(CostCalculator(testState({ agents: [agent], commit_minimum_monthly: 50, contract_provider: 'Anthropic' })).commitShortfall, 50)
+  })
+
+  it('tops model usage up to the commitment minimum', () => {
+    const costs = CostCalculator(testState({ commit_discount_pct: 10, commit_minimum_monthly: 100 }))
+
+    assertClose(costs.commitDiscount, 4.5)
+    assertClose(costs.commitShortfall, 59.5)
+    assertClose(costs.totalMonthly, 100)
+  })
+
+  it('charges no shortfall once usage clears the minimum', () => {
+    const costs = CostCalculator(testState({ commit_minimum_monthly: 40 }))
+
+    assert.equal(costs.commitShortfall, 0)
+    assertClose(costs.totalMonthly, 45)
+  })
+})
+
+describe('applyVolumeTiers', () => {
+  it('discounts only the tokens beyond each threshold', () => {
+    // 20M tokens at $5/M: the first 10M at list, the next 10M at half price
+    assertClose(applyVolumeTiers(100, 20_000_000, [{ id: 'tier', above_million_tokens: 10, discount_pct: 50 }]), 75)
+  })
+
+  it('sorts tiers before banding', () => {
+    const tiers = [
+      { id: 'upper', above_million_tokens: 15, discount_pct: 50 },
+      { id: 'lower', above_million_tokens: 5, discount_pct: 10 },
+    ]
+    // 5M at list, 10M at 10% off, 5M at 50% off, at $5/M
+    assertClose(applyVolumeTiers(100, 20_000_000, tiers), 25 + 45 + 12.5)
+  })
+
+  it('returns list cost without tiers or tokens', () => {
+    assert.equal(applyVolumeTiers(100, 20_000_000, []), 100)
+    assert.equal(applyVolumeTiers(100, 0, [{ id: 'tier', above_million_tokens: 0, discount_pct: 50 }]), 100)
+  })
+})
+
+describe('validateEstimate', () => {
+  const errors = (state: EstimatorState) => validateEstimate(state).filter(issue => issue.severity === 'error')
+
+  it('passes a configuration that fits the model', () => {
+    assert.deepEqual(errors(testState()), [])
+  })
+
+  it('rejects replies beyond the output cap', () => {
+    const issues = errors(testState({ channels: [{ ...EMAIL, output_tokens: 20_000 }] }))
+
+    assert.equal(issues.length, 1)
+    assert.match(issues[0].message, /output cap/)
+  })
+
+  it('rejects prompts beyond the context window', () => {
+    const issues = errors(testState({ channels: [{ ...EMAIL, input_tokens: 200_000 }] }))
+
+    assert.ok(issues.some(issue => /context window/.test(issue.message)))
+  })
+
+  it('rejects images on models without vision', () => {
+    const issues = errors(testState({ model_id: 'deepseek-v3', channels: [{ ...EMAIL, images: 1 }] }))
+
+    assert.ok(issues.some(issue => /cannot read images/.test(issue.message)))
+  })
+
+  it('warns when routing shares do not add up to 100%', () => {
+    const issues = validateEstimate(routed([{ id: 'mini', model_id: 'gpt-4o-mini', share_pct: 50 }, { id: '4o', model_id: 'gpt-4o', share_pct: 30 }]))
+
+    assert.ok(issues.some(issue => issue.severity === 'warning' && /80%/.test(issue.message)))
+  })
+})
+
+describe('BudgetSolver', () => {
+  const maxVolume = (state: EstimatorState, budget: number) => {
+    const [solution] = BudgetSolver(state, state, budget, ['transactions'])
+    assert.ok(solution, 'expected a solution')
+    assert.ok(solution.monthlyCost <= budget)
+    return monthlyTransactions(solution.state)
+  }
+
+  it('scales volume up to the budget', () => {
+    // $45 per 100k transactions
+    assertClose(maxVolume(testState(), 90), 200_000, 200)
+  })
+
+  it('looks past a commitment floor', () => {
+    // Billed at the $100 minimum until usage exceeds it
+    assertClose(maxVolume(testState({ commit_minimum_monthly: 100 }), 150), 333_333, 333)
+  })
+
+  it('uses the budget freed by volume tiers', () => {
+    // 1,500 tokens per transaction at $0.30/M, half price past 10M tokens:
+    // $3 for the first 10M, then $7 buys 46.7M more
+    const state = testState({ volume_tiers: [{ id: 'tier', above_million_tokens: 10, discount_pct: 50 }] })
+    assertClose(maxVolume(state, 10), 37_778, 38)
+  })
+
+  it('finds nothing when one transaction is over budget', () => {
+    const state = testState({ commit_minimum_monthly: 100 })
+    assert.deepEqual(BudgetSolver(state, state, 50, ['transactions']), [])
+  })
+
+  it('moves to a cheaper model when the model is free', () => {
+    const state = testState({ model_id: 'claude-sonnet-4' })
+    const solutions = BudgetSolver(state, state, 100, ['model'])
+
+    assert.ok(solutions.length > 0)
+    assert.ok(solutions.every(solution => solution.monthlyCost <= 100 && solution.state.model_id !== 'claude-sonnet-4'))
+  })
+})
+
+describe('RoiCalculator', () => {
+  it('breaks even where labour saved covers the commitment', () => {
+    // Manual handling costs 6 min at $35/h = $3.50 per transaction
+    const roi = RoiCalculator(testState({ commit_minimum_monthly: 100 }))
+
+    assert.equal(roi.breakEvenVolume, 29)
+  })
+})
+
+describe('ConversationCalculator', () => {
+  it('makes one call with no history for a single request', () => {
+    const session = ConversationCalculator(EMAIL)
+
+    assert.equal(session.calls, 1)
+    assert.equal(session.historyTokens, 0)
+    assert.equal(session.inputTokens, 1000)
+  })
+
+  it('resends the whole history with the full strategy', () => {
+    const session = ConversationCalculator(conversation({ history_strategy: 'full' }))
+
+    // Turns resend 0, 1, 2 and 3 prior turns of 200 tokens
+    assert.equal(session.calls, 4)
+    assert.equal(session.inputTokens, 400)
+    assert.equal(session.historyTokens, 1200)
+    assert.equal(session.maxTurnInputTokens, 700)
+    assert.equal(session.summaryInputTokens, 0)
+  })
+
+  it('caps history at the window when truncating', () => {
+    const session = ConversationCalculator(conversation({ history_strategy: 'truncate' }))
+
+    assert.equal(session.historyTokens, 0 + 200 + 200 + 200)
+    assert.equal(session.maxTurnInputTokens, 300)
+  })
+
+  it('adds a running summary and its rewrites when summarizing', () => {
+    const session = ConversationCalculator(conversation({ history_strategy: 'summarize' }))
+
+    assert.equal(session.historyTokens, 0 + 200 + 250 + 250)
+    // Turns 3 and 4 each fold one turn into the 50-token summary
+    assert.equal(session.summaryInputTokens, 2 * (50 + 200))
+    assert.equal(session.summaryOutputTokens, 2 * 50)
+  })
+})
+
+describe('MultimodalCalculator', () => {
+  const attachments = { ...EMAIL, images: 1, pdf_pages: 2, audio_minutes: 3 }
+
+  it('bills native attachment tokens on models that read them', () => {
+    const media = MultimodalCalculator(attachments, getModelPricing('gemini-2.0-flash'))
+
+    assert.equal(media.imageTokens, 1032)
+    assert.equal(media.pdfTokens, 2 * 258)
+    assert.equal(media.audioTokens, 3 * 1920)
+    assert.equal(media.transcriptionMinutes, 0)
+    assert.equal(media.imagesUnsupported, false)
+  })
+
+  it('falls back to extracted text and transcripts', () => {
+    const media = MultimodalCalculator(attachments, getModelPricing('deepseek-v3'))
+
+    assert.equal(media.pdfTokens, 2 * 500)
+    assert.equal(media.audioTokens, 0)
+    assert.equal(media.transcriptTokens, 3 * 200)
+    assert.equal(media.transcriptionMinutes, 3)
+  })
+
+  it('flags images on models without vision', () => {
+    const media = MultimodalCalculator(attachments, getModelPricing('deepseek-v3'))
+
+    assert.equal(media.imageTokens, 0)
+    assert.equal(media.imagesUnsupported, true)
+  })
+})
+
+describe('model routing', () => {
+  it('normalizes route shares and falls back to model_id', () => {
+    const routes = primaryRoutes(routed([{ id: 'mini', model_id: 'gpt-4o-mini', share_pct: 50 }, { id: '4o', model_id: 'gpt-4o', share_pct: 30 }]))
+
+    assert.deepEqual(routes.map(route => [route.model.id, route.share]), [['gpt-4o-mini', 0.625], ['gpt-4o', 0.375]])
+    assert.deepEqual(primaryRoutes(testState()).map(route => route.model.id), ['gpt-4o-mini'])
+  })
+
+  it('splits primary tokens across routes and adds the classifier', () => {
+    const costs = CostCalculator(routed(MINI_AND_4O))
+    const item = (id: string) => costs.lineItems.find(i => i.id === id)
+
+    assertClose(costs.tokensByModel['gpt-4o-mini'], 0.8 * 150_000_000)
+    assertClose(costs.tokensByModel['gpt-4o'], 0.2 * 150_000_000)
+    // One classifier call per request reads its 300-token prompt and the input
+    assertClose(item('router_input')?.tokens ?? 0, 100_000 * 300 + 100_000_000)
+    assertClose(item('router_output')?.tokens ?? 0, 100_000 * 10)
+  })
+
+  it('ignores the configured model while routing', () => {
+    const withReflection = { reflection_passes: 1, reflection_model_id: null }
+    const onMini = CostCalculator(routed([{ id: 'mini', model_id: 'gpt-4o-mini', share_pct: 100 }], { ...withReflection, model_id: 'gpt-4o-mini' }))
+    const onOpus = CostCalculator(routed([{ id: 'mini', model_id: 'gpt-4o-mini', share_pct: 100 }], { ...withReflection, model_id: 'claude-opus-4' }))
+
+    assertClose(onOpus.totalMonthly, onMini.totalMonthly)
+    assert.equal(onOpus.tokensByModel['claude-opus-4'], undefined)
+  })
+
+  it('splits reflection across routes unless it has its own model', () => {
+    const reflectionTokens = CostCalculator(routed(MINI_AND_4O, { reflection_passes: 1 })).lineItems
+      .filter(item => item.id.startsWith('reflection_'))
+      .reduce((sum, item) => sum + item.tokens, 0)
+    const withoutReflection = CostCalculator(routed(MINI_AND_4O)).tokensByModel
+    const followsMix = CostCalculator(routed(MINI_AND_4O, { reflection_passes: 1 })).tokensByModel
+
+    // Each call re-sends its 500-token draft plus 300 tokens of instructions and writes 600 tokens
+    assertClose(reflectionTokens, 100_000 * 1400)
+    assertClose(followsMix['gpt-4o-mini'] - withoutReflection['gpt-4o-mini'], 0.8 * 100_000 * 1400)
+    assertClose(followsMix['gpt-4o'] - withoutReflection['gpt-4o'], 0.2 * 100_000 * 1400)
+
+    const ownModel = CostCalculator(routed(MINI_AND_4O, { reflection_passes: 1, reflection_model_id: 'claude-3-5-haiku' }))
+    assertClose(ownModel.tokensByModel['claude-3-5-haiku'], 100_000 * 1400)
+  })
+
+  it('counts reflection requests on each route', () => {
+    const peakRpm = (state: EstimatorState, modelId: string) =>
+      ThroughputCalculator(state).models.find(demand => demand.model.id === modelId)?.peakRpm ?? 0
+
+    // One reflection pass doubles the requests on each route
+    for (const modelId of ['gpt-4o-mini', 'gpt-4o']) {
+      assertClose(peakRpm(routed(MINI_AND_4O, { reflection_passes: 1 }), modelId), 2 * peakRpm(routed(MINI_AND_4O), modelId))
+    }
+  })
+
+  it('shifts every route a tier for model sensitivity', () => {
+    const tier = SensitivityAnalyzer(routed(MINI_AND_4O, { model_id: 'claude-opus-4' }), 20).results
+      .find(result => result.label === 'Model Tier')
+
+    assert.ok(tier && tier.high > tier.low)
+  })
+
+  it('names the route mix for the primary agent', () => {
+    const costs = CostCalculator(routed(MINI_AND_4O, { model_id: 'claude-sonnet-4' }))
+
+    assert.equal(costs.modelMix, '80% GPT-4o mini / 20% GPT-4o')
+    assert.equal(costs.agentBreakdown[0].modelName, costs.modelMix)
+    assert.equal(CostCalculator(testState()).modelMix, 'GPT-4o mini')
+  })
+
+  it('compares the mix against the configured model', () => {
+    const comparison = RoutingComparison(routed(MINI_AND_4O, { model_id: 'claude-sonnet-4' }))
+
+    assert.ok(comparison)
+    assert.equal(comparison.baseline.model.id, 'claude-sonnet-4')
+    assert.deepEqual(comparison.singleModel.map(costs => costs.model.id), ['gpt-4o', 'gpt-4o-mini'])
+    assertClose(comparison.savings, comparison.baseline.totalMonthly - comparison.blended.totalMonthly)
+  })
+
+  it('returns no comparison with routing off', () => {
+    assert.equal(RoutingComparison(testState()), null)
+  })
+})
+
+describe('channel volume', () => {
+  it('converts per-day and per-week volumes to a month', () => {
+    assert.equal(channelMonthlyVolume({ ...EMAIL, volume: 10, volume_unit: 'business_day' }), 220)
+    assertClose(channelMonthlyVolume({ ...EMAIL, volume: 12, volume_unit: 'week' }), 52)
+  })
+
+  it('keeps the channel mix when setting the total volume', () => {
+    const chat: ChannelStream = { ...EMAIL, id: 'chat', volume: 300 }
+    const state = withMonthlyVolume(testState({ channels: [{ ...EMAIL, volume: 100 }, chat] }), 2000)
+
+    assert.deepEqual(state.channels.map(channel => channel.volume), [500, 1500])
+  })
+})
+
+describe('channelsFromWorkflow', () => {
+  it('builds one stream per extracted channel', () => {
+    const [email, chat, docs, ...rest] = channelsFromWorkflow(WORKFLOW)
+
+    assert.equal(rest.length, 0)
+    assert.equal(email.volume, 200)
+    assert.equal(email.input_tokens, 1200)
+    assert.equal(chat.volume, 50)
+    assert.equal(chat.workload, 'conversation')
+    assert.ok(chat.sla_seconds > 0)
+    assert.equal(docs.volume, 10)
+    assert.equal(docs.pdf_pages, 5)
+  })
+
+  it('leaves PDF pages off when the workflow does not mention PDFs', () => {
+    const docs = channelsFromWorkflow({ ...WORKFLOW, workflow_description: 'Answer supplier questions' })[2]
+
+    assert.equal(docs.pdf_pages, 0)
+  })
+
+  it('falls back to workflows per business day without a channel split', () => {
+    const channels = channelsFromWorkflow({
+      ...WORKFLOW,
+      volume_estimates: { emails_per_month: 0, chats_per_month: 0, docs_per_month: 0, workflows_per_day: 8 },
+    })
+    const workflows = channels[channels.length - 1]
+
+    assert.equal(workflows.id, 'workflows')
+    assert.equal(workflows.volume, 8)
+    assert.equal(workflows.volume_unit, 'business_day')
+    assert.ok(workflows.sla_seconds > 0)
+  })
+})
@@ -0,0 +1,1791 @@
+/**
+ * Cost Engine
+ *
+ * Framework-free cost model behind the estimator UI and the command-line
+ * estimator (scripts/estimate.ts). Everything here is a pure function of an
+ * EstimatorState - no React, no DOM, no network - so scripts and servers can
+ * quote the same numbers the app shows.
+ *
+ * @example
+ * ```ts
+ * import { CostCalculator, estimatorStateFromWorkflow, validateEstimate } from '@/utils/costEngine'
+ *
+ * const state = estimatorStateFromWorkflow(workflowData)
+ * const costs = CostCalculator(state)
+ * console.log(costs.totalMonthly, validateEstimate(state))
+ * ```
+ */
+
+import {
+  MODEL_CATALOG,
+  PRICING_CATALOG_VERSION,
+  DEFAULT_MODEL_ID,
+  getModelPricing,
+  resolveModelId,
+  type ImageResolution,
+  type ModelTier,
+  type ModelPricing,
+  TIER_DEFAULT_MODEL,
+  DEFAULT_EMBEDDING_MODEL_ID,
+  VECTOR_STORAGE_PER_GB_MONTH,
+  PDF_TEXT_TOKENS_PER_PAGE,
+  TRANSCRIPTION_PER_MINUTE,
+  TRANSCRIPT_TOKENS_PER_MINUTE,
+  getEmbeddingPricing,
+} from './pricingCatalog'
+
+// Workflow extracted by the discovery chat (the "Download JSON" format)
+export interface WorkflowData {
+  business_problem: string
+  workflow_description: string
+  use_case_category: string
+  channels: string[]
+  complexity_tier: 'Low' | 'Medium' | 'High'
+  recommended_model: string
+  agents_required: number
+  features: {
+    rag: boolean
+    memory: boolean
+    db_queries: number
+    tool_calls: number
+    reflection: boolean
+  }
+  volume_estimates: {
+    emails_per_month: number
+    chats_per_month: number
+    docs_per_month: number
+    workflows_per_day: number
+  }
+  token_estimates: {
+    input_tokens: number
+    output_tokens: number
+    inter_agent_tokens: number
+  }
+}
+
+// Additional agent in the pipeline after the primary agent
+export interface AgentConfig {
+  id: string
+  name: string
+  model_id: string
+  input_tokens: number
+  output_tokens: number
+  rag_queries: number
+  tool_calls: number
+  memory_ops: number
+}
+
+// Spread around a point estimate, as percentages below and above it
+export interface UncertaintyRange {
+  low_pct: number
+  high_pct: number
+}
+
+// Negotiated volume tier: model spend on tokens beyond the threshold is discounted
+export interface VolumeTier {
+  id: string
+  above_million_tokens: number
+  discount_pct: number
+}
+
+// User-defined third-party cost (OCR, CRM API calls, SMS, search...): a USD
+// unit price times units per transaction, or a flat USD monthly fee
+export interface CustomCostItem {
+  id: string
+  name: string
+  pricing: 'per_unit' | 'monthly'
+  unit_price: number
+  units_per_transaction: number
+  monthly_amount: number
+}
+
+// Model routing: a classifier sends each primary call to one of several
+// models by share of traffic, instead of everything going to model_id
+export interface ModelRoute {
+  id: string
+  model_id: string
+  share_pct: number
+}
+
+export interface RoutingConfig {
+  enabled: boolean
+  routes: ModelRoute[]
+  classifier_model_id: string
+  // Routing instructions per call; the classifier also reads the request
+  classifier_prompt_tokens: number
+  classifier_output_tokens: number
+}
+
+// How a channel's volume is counted; per-day volumes run on business days
+// (Mon-Fri) or every calendar day
+export type VolumeUnit = 'business_day' | 'calendar_day' | 'week' | 'month'
+
+// A single request is answered in one call; a conversation is a session of
+// turns, each resending the history so far
+export type WorkloadType = 'request' | 'conversation'
+
+// What happens to history older than the window: resent in full, dropped,
+// or folded into a running summary
+export type HistoryStrategy = 'full' | 'truncate' | 'summarize'
+
+// One inbound stream (email, chat, documents...) handled by the primary agent
+export interface ChannelStream {
+  id: string
+  name: string
+  volume: number
+  volume_unit: VolumeUnit
+  workload: WorkloadType
+  // Token profile of one request, or of one user and assistant turn
+  input_tokens: number
+  output_tokens: number
+  // Conversations only: session length and how history is kept
+  turns_per_session: number
+  history_strategy: HistoryStrategy
+  history_window_turns: number
+  summary_tokens: number
+  // Attachments a transaction carries; conversations resend them with every
+  // turn, like the rest of the per-call context
+  images: number
+  image_resolution: ImageResolution
+  pdf_pages: number
+  audio_minutes: number
+  // End-to-end response time users will wait for, in seconds (0 = offline
+  // work); per turn for conversations
+  sla_seconds: number
+}
+
+const REQUEST_WORKLOAD: Pick<ChannelStream, 'workload' | 'turns_per_session' | 'history_strategy' | 'history_window_turns' | 'summary_tokens'> = {
+  workload: 'request',
+  turns_per_session: 1,
+  history_strategy: 'full',
+  history_window_turns: 10,
+  summary_tokens: 500,
+}
+
+const NO_ATTACHMENTS: Pick<ChannelStream, 'images' | 'image_resolution' | 'pdf_pages' | 'audio_minutes'> = {
+  images: 0,
+  image_resolution: 'standard',
+  pdf_pages: 0,
+  audio_minutes: 0,
+}
+
+// Page count seeded for document channels when the workflow mentions PDFs
+const PDF_PAGES_PER_DOCUMENT = 5
+
+// Chat turns are much shorter than the single-request profile the discovery
+// chat extracts, so chat channels start from their own per-turn sizes
+const CHAT_WORKLOAD: Pick<ChannelStream, 'workload' | 'input_tokens' | 'output_tokens' | 'turns_per_session' | 'history_strategy' | 'history_window_turns' | 'summary_tokens'> = {
+  ...REQUEST_WORKLOAD,
+  workload: 'conversation',
+  input_tokens: 150,
+  output_tokens: 300,
+  turns_per_session: 6,
+}
+
+export interface EstimatorState {
+  // Channels are summed; every transaction also runs the features and
+  // pipeline configured below
+  channels: ChannelStream[]
+  // Share of a day's volume arriving in its busiest hour
+  peak_hour_pct: number
+  rag_queries: number
+  db_queries: number
+  tool_calls: number
+  memory_ops: number
+  model_id: string
+  routing: RoutingConfig
+  // Reflection: each pass re-sends the draft plus critique instructions and
+  // generates a critique and revision, optionally on a cheaper model
+  reflection_passes: number
+  reflection_input_tokens: number
+  reflection_output_tokens: number
+  reflection_model_id: string | null
+  // Fixed system prompt resent on every call, and the share of calls that
+  // read it from the provider's prompt cache (0 = caching disabled)
+  fixed_prompt_tokens: number
+  cache_hit_pct: number
+  // Share of transactions that can wait for an asynchronous batch API
+  batch_share_pct: number
+  // Downstream agents, in the order they run after the primary agent
+  agents: AgentConfig[]
+  // RAG corpus: ingestion, monthly churn and retrieval shape
+  rag_corpus_docs: number
+  rag_doc_tokens: number
+  rag_docs_churn_per_month: number
+  rag_chunk_tokens: number
+  rag_top_k: number
+  embedding_model_id: string
+  // Reliability overhead: primary calls re-run after unparseable output,
+  // failed tool calls retried, and transactions escalated to a larger model
+  parse_retry_pct: number
+  tool_failure_pct: number
+  escalation_pct: number
+  escalation_model_id: string
+  // Human-in-the-loop: share of transactions a person reviews or takes over,
+  // and what each review costs
+  review_pct: number
+  review_minutes: number
+  reviewer_hourly_rate: number
+  // Manual baseline for ROI: human handling time and loaded cost per
+  // transaction without the agent, and upfront build cost
+  human_minutes_per_transaction: number
+  human_hourly_rate: number
+  implementation_cost: number
+  // Negotiated contract with one provider (null = the primary model's):
+  // graduated volume tiers on that provider's model spend, then a
+  // committed-use discount with a minimum monthly commitment (0 = none)
+  contract_provider: string | null
+  volume_tiers: VolumeTier[]
+  commit_discount_pct: number
+  commit_minimum_monthly: number
+  // Third-party fees billed outside the model provider
+  custom_items: CustomCostItem[]
+  // Ranges sampled by the Monte Carlo simulation; transactions and tokens
+  // scale every channel together, feature_usage scales RAG, DB, tool and
+  // memory counts together
+  distribution: 'uniform' | 'triangular'
+  uncertainty: {
+    transactions_per_month: UncertaintyRange
+    input_tokens: UncertaintyRange
+    output_tokens: UncertaintyRange
+    feature_usage: UncertaintyRange
+  }
+}
+
+export const DEFAULT_ESTIMATOR_STATE: EstimatorState = {
+  channels: [
+    { id: 'email', name: 'Email', volume: 100, volume_unit: 'month', ...REQUEST_WORKLOAD, ...NO_ATTACHMENTS, input_tokens: 500, output_tokens: 800, sla_seconds: 0 },
+    { id: 'chat', name: 'Chat', volume: 0, volume_unit: 'month', ...CHAT_WORKLOAD, ...NO_ATTACHMENTS, sla_seconds: 5 },
+    { id: 'docs', name: 'Documents', volume: 0, volume_unit: 'month', ...REQUEST_WORKLOAD, ...NO_ATTACHMENTS, input_tokens: 500, output_tokens: 800, sla_seconds: 0 },
+  ],
+  peak_hour_pct: 15,
+  rag_queries: 0,
+  db_queries: 0,
+  tool_calls: 0,
+  memory_ops: 0,
+  model_id: DEFAULT_MODEL_ID,
+  routing: {
+    enabled: false,
+    routes: [
+      { id: 'route-budget', model_id: TIER_DEFAULT_MODEL.budget, share_pct: 80 },
+      { id: 'route-premium', model_id: TIER_DEFAULT_MODEL.premium, share_pct: 20 },
+    ],
+    classifier_model_id: 'gemini-2.0-flash',
+    classifier_prompt_tokens: 300,
+    classifier_output_tokens: 10,
+  },
+  reflection_passes: 0,
+  reflection_input_tokens: 300,
+  reflection_output_tokens: 600,
+  reflection_model_id: null,
+  fixed_prompt_tokens: 0,
+  cache_hit_pct: 90,
+  batch_share_pct: 0,
+  agents: [],
+  rag_corpus_docs: 1000,
+  rag_doc_tokens: 2000,
+  rag_docs_churn_per_month: 100,
+  rag_chunk_tokens: 400,
+  rag_top_k: 3,
+  embedding_model_id: DEFAULT_EMBEDDING_MODEL_ID,
+  parse_retry_pct: 3,
+  tool_failure_pct: 5,
+  escalation_pct: 0,
+  escalation_model_id: TIER_DEFAULT_MODEL.premium,
+  review_pct: 15,
+  review_minutes: 5,
+  reviewer_hourly_rate: 40,
+  human_minutes_per_transaction: 6,
+  human_hourly_rate: 35,
+  implementation_cost: 0,
+  contract_provider: null,
+  volume_tiers: [],
+  commit_discount_pct: 0,
+  commit_minimum_monthly: 0,
+  custom_items: [],
+  distribution: 'triangular',
+  uncertainty: {
+    transactions_per_month: { low_pct: 30, high_pct: 50 },
+    input_tokens: { low_pct: 20, high_pct: 30 },
+    output_tokens: { low_pct: 20, high_pct: 30 },
+    feature_usage: { low_pct: 25, high_pct: 25 },
+  },
+}
+
+export function createAgent(index: number, modelId: string, inputTokens = 500): AgentConfig {
+  return {
+    id: `agent-${index}-${Date.now()}`,
+    name: `Agent ${index}`,
+    model_id: modelId,
+    input_tokens: inputTokens,
+    output_tokens: 300,
+    rag_queries: 0,
+    tool_calls: 0,
+    memory_ops: 0,
+  }
+}
+
+export function createChannel(index: number): ChannelStream {
+  return {
+    id: `channel-${index}-${Date.now()}`,
+    name: `Channel ${index}`,
+    volume: 100,
+    volume_unit: 'month',
+    ...REQUEST_WORKLOAD,
+    ...NO_ATTACHMENTS,
+    input_tokens: 500,
+    output_tokens: 800,
+    sla_seconds: 0,
+  }
+}
+
+export function createCustomItem(index: number): CustomCostItem {
+  return {
+    id: `custom-${index}-${Date.now()}`,
+    name: `Custom Item ${index}`,
+    pricing: 'per_unit',
+    unit_price: 0.01,
+    units_per_transaction: 1,
+    monthly_amount: 0,
+  }
+}
+
+export function createRoute(index: number, modelId: string, sharePct: number): ModelRoute {
+  return {
+    id: `route-${index}-${Date.now()}`,
+    model_id: modelId,
+    share_pct: sharePct,
+  }
+}
+
+export function createVolumeTier(index: number, aboveMillionTokens: number, discountPct: number): VolumeTier {
+  return {
+    id: `tier-${index}-${Date.now()}`,
+    above_million_tokens: aboveMillionTokens,
+    discount_pct: discountPct,
+  }
+}
+
+// agents_required counts the primary agent; the rest become pipeline stages
+// that receive the extracted inter-agent token estimate as their input
+export function agentsFromWorkflow(data: WorkflowData | null): AgentConfig[] {
+  if (!data) return []
+  const modelId = resolveModelId(data.recommended_model)
+  const count = Math.max(0, (data.agents_required || 1) - 1)
+  return Array.from({ length: count }, (_, i) =>
+    createAgent(i + 2, modelId, data.token_estimates.inter_agent_tokens || 500)
+  )
+}
+
+// One stream per extracted channel. Email and documents start from the
+// extracted token profile, chat as a multi-turn conversation, and documents
+// carry PDF pages when the workflow mentions PDFs. Extractions with no channel
+// split fall back to workflows_per_day as a per-business-day volume.
+export function channelsFromWorkflow(data: WorkflowData): ChannelStream[] {
+  const { emails_per_month, chats_per_month, docs_per_month, workflows_per_day } = data.volume_estimates
+  const mentionsPdf = /\bpdfs?\b/i.test([data.workflow_description, ...data.channels].join(' '))
+  const profile = {
+    ...REQUEST_WORKLOAD,
+    ...NO_ATTACHMENTS,
+    input_tokens: data.token_estimates.input_tokens || 500,
+    output_tokens: data.token_estimates.output_tokens || 800,
+  }
+  const channels: ChannelStream[] = [
+    { id: 'email', name: 'Email', volume: emails_per_month || 0, volume_unit: 'month', ...profile, sla_seconds: 0 },
+    { id: 'chat', name: 'Chat', volume: chats_per_month || 0, volume_unit: 'month', ...CHAT_WORKLOAD, ...NO_ATTACHMENTS, sla_seconds: INTERACTIVE_SLA_SECONDS },
+    {
+      id: 'docs',
+      name: 'Documents',
+      volume: docs_per_month || 0,
+      volume_unit: 'month',
+      ...profile,
+      pdf_pages: mentionsPdf ? PDF_PAGES_PER_DOCUMENT : 0,
+      sla_seconds: 0,
+    },
+  ]
+  if (channels.every(channel => channel.volume === 0)) {
+    channels.push({
+      id: 'workflows',
+      name: 'Workflows',
+      volume: workflows_per_day || 5,
+      volume_unit: 'business_day',
+      ...profile,
+      sla_seconds: data.channels.some(channel => channel.toLowerCase().includes('chat')) ? INTERACTIVE_SLA_SECONDS : 0,
+    })
+  }
+  return channels
+}
+
+export function estimatorStateFromWorkflow(data: WorkflowData): EstimatorState {
+  return {
+    ...DEFAULT_ESTIMATOR_STATE,
+    channels: channelsFromWorkflow(data),
+    agents: agentsFromWorkflow(data),
+    rag_queries: data.features.rag ? 5 : 0,
+    db_queries: data.features.db_queries || 0,
+    tool_calls: data.features.tool_calls || 0,
+    memory_ops: data.features.memory ? 2 : 0,
+    reflection_passes: data.features.reflection ? 1 : 0,
+    model_id: resolveModelId(data.recommended_model),
+    batch_share_pct: batchShareFromWorkflow(data),
+    rag_docs_churn_per_month: data.volume_estimates.docs_per_month || DEFAULT_ESTIMATOR_STATE.rag_docs_churn_per_month,
+    ...REVIEW_BY_COMPLEXITY[data.complexity_tier],
+  }
+}
+
+// Harder workflows escalate more often and take longer to review
+export const REVIEW_BY_COMPLEXITY: Record<WorkflowData['complexity_tier'], { review_pct: number; review_minutes: number }> = {
+  Low: { review_pct: 5, review_minutes: 3 },
+  Medium: { review_pct: 15, review_minutes: 5 },
+  High: { review_pct: 30, review_minutes: 10 },
+}
+
+// Documents rarely need a realtime answer, so seed the batch share with
+// their portion of the extracted channel volume
+export function batchShareFromWorkflow(data: WorkflowData | null): number {
+  if (!data) return 0
+  const { emails_per_month, chats_per_month, docs_per_month } = data.volume_estimates
+  const total = emails_per_month + chats_per_month + docs_per_month
+  return total > 0 ? Math.round(docs_per_month / total * 100) : 0
+}
+
+export interface CostLineItem {
+  id: string
+  label: string
+  agent_id: string
+  // 'audio_input' is billed at the model's audio rate, 'service' covers
+  // non-LLM spend such as embeddings and vector storage, 'human' is reviewer
+  // time and 'custom' is a user-defined third-party fee
+  kind: 'input' | 'cache_read' | 'cache_write' | 'audio_input' | 'output' | 'service' | 'human' | 'custom'
+  // Model billed for the tokens; unset for non-LLM items
+  model_id?: string
+  tokens: number
+  cost: number
+  detail?: string
+}
+
+export interface EstimateIssue {
+  severity: 'error' | 'warning'
+  // Overrides the default alert heading for the severity
+  title?: string
+  message: string
+  suggestion: string
+}
+
+// Prompt tokens each feature adds to a single call (RAG context is sized
+// from the retrieval settings instead, see ragTokensPerQuery)
+const FEATURE_TOKEN_OVERHEAD = {
+  db_query: 150,
+  tool_call: 100,
+  memory_op: 100,
+}
+
+// Tokens embedded per RAG query, and bytes stored per chunk on top of the
+// float32 vector (chunk text plus metadata, ~4 bytes per token)
+const RAG_QUERY_EMBED_TOKENS = 50
+
+const RAG_BYTES_PER_CHUNK_TOKEN = 4
+
+const PRIMARY_AGENT_ID = 'primary'
+
+const BUSINESS_DAYS_PER_MONTH = 22
+
+// Typical round-trip per feature call outside the model, in milliseconds
+const FEATURE_ROUND_TRIP_MS = {
+  rag_query: 150,
+  db_query: 50,
+  tool_call: 400,
+  memory_op: 50,
+}
+
+// Worst case: slow model responses and slow backends, plus one parse retry
+// and the escalation path when those are configured
+const WORST_CASE_MODEL_FACTOR = 2
+
+const WORST_CASE_ROUND_TRIP_FACTOR = 3
+
+const INTERACTIVE_SLA_SECONDS = 5
+
+// Channel Volume
+const CALENDAR_DAYS_PER_MONTH = 365 / 12
+const WEEKS_PER_MONTH = 52 / 12
+
+const VOLUME_UNIT_PER_MONTH: Record<VolumeUnit, number> = {
+  business_day: BUSINESS_DAYS_PER_MONTH,
+  calendar_day: CALENDAR_DAYS_PER_MONTH,
+  week: WEEKS_PER_MONTH,
+  month: 1,
+}
+
+// Days per month the channel's traffic arrives on, for peak-hour sizing
+function activeDaysPerMonth(channel: ChannelStream) {
+  return channel.volume_unit === 'business_day' ? BUSINESS_DAYS_PER_MONTH :
+         channel.volume_unit === 'calendar_day' ? CALENDAR_DAYS_PER_MONTH :
+         // Weekly and monthly volumes are assumed to arrive on business days
+         BUSINESS_DAYS_PER_MONTH
+}
+
+export function channelMonthlyVolume(channel: ChannelStream) {
+  return channel.volume * VOLUME_UNIT_PER_MONTH[channel.volume_unit]
+}
+
+export function monthlyTransactions(state: EstimatorState) {
+  return state.channels.reduce((sum, channel) => sum + channelMonthlyVolume(channel), 0)
+}
+
+// Volume-weighted token profile across channels
+export function averageTokens(state: EstimatorState) {
+  const total = monthlyTransactions(state)
+  const weighted = (key: 'input_tokens' | 'output_tokens') => total > 0
+    ? state.channels.reduce((sum, channel) => sum + channelMonthlyVolume(channel) * channel[key], 0) / total
+    : 0
+  return { input_tokens: weighted('input_tokens'), output_tokens: weighted('output_tokens') }
+}
+
+// Channels carrying traffic; validation and latency only look at these
+function activeChannels(state: EstimatorState) {
+  return state.channels.filter(channel => channel.volume > 0)
+}
+
+/**
+ * Scale every channel's volume by the same factor, keeping the channel mix
+ */
+export function scaleVolume(state: EstimatorState, factor: number): EstimatorState {
+  return { ...state, channels: state.channels.map(channel => ({ ...channel, volume: channel.volume * factor })) }
+}
+
+/**
+ * Set the total monthly volume, keeping the channel mix. With no volume yet
+ * the total is split evenly across channels.
+ */
+export function withMonthlyVolume(state: EstimatorState, transactions: number): EstimatorState {
+  const current = monthlyTransactions(state)
+  if (current > 0) return scaleVolume(state, transactions / current)
+  if (state.channels.length === 0) return state
+  return {
+    ...state,
+    channels: state.channels.map(channel => ({
+      ...channel,
+      volume: transactions / state.channels.length,
+      volume_unit: 'month',
+    })),
+  }
+}
+
+export function scaleChannelTokens(state: EstimatorState, inputFactor: number, outputFactor: number): EstimatorState {
+  return {
+    ...state,
+    channels: state.channels.map(channel => ({
+      ...channel,
+      input_tokens: channel.input_tokens * inputFactor,
+      output_tokens: channel.output_tokens * outputFactor,
+    })),
+  }
+}
+
+// Conversation Calculator
+// Tokens of one transaction on a channel. Every turn is a full call: it
+// resends the per-call context (fixed prompt, retrieved and tool context,
+// attachments) fresh, plus the turn text kept so far as history. History
+// holds only that text, so with full history the input grows
+// with the square of the session length; truncation caps it at the window,
+// summarization swaps older turns for a running summary that is itself
+// re-written once per turn beyond the window.
+export function ConversationCalculator(channel: ChannelStream) {
+  const turns = channel.workload === 'conversation' ? Math.max(1, Math.round(channel.turns_per_session)) : 1
+  const turnTokens = channel.input_tokens + channel.output_tokens
+  const window = Math.max(0, Math.round(channel.history_window_turns))
+
+  const historyAtTurn = (priorTurns: number) => {
+    if (channel.workload !== 'conversation' || channel.history_strategy === 'full' || priorTurns <= window) {
+      return priorTurns * turnTokens
+    }
+    return window * turnTokens + (channel.history_strategy === 'summarize' ? channel.summary_tokens : 0)
+  }
+
+  let historyTokens = 0
+  let maxHistoryTokens = 0
+  for (let turn = 0; turn < turns; turn++) {
+    historyTokens += historyAtTurn(turn)
+    maxHistoryTokens = Math.max(maxHistoryTokens, historyAtTurn(turn))
+  }
+
+  const summaries = channel.workload === 'conversation' && channel.history_strategy === 'summarize'
+    ? Math.max(0, turns - 1 - window)
+    : 0
+
+  return {
+    calls: turns,
+    inputTokens: turns * channel.input_tokens,
+    outputTokens: turns * channel.output_tokens,
+    historyTokens,
+    // Largest prompt content of any one turn, for context-window checks
+    maxTurnInputTokens: channel.input_tokens + maxHistoryTokens,
+    summaryInputTokens: summaries * (channel.summary_tokens + turnTokens),
+    summaryOutputTokens: summaries * channel.summary_tokens,
+  }
+}
+
+// Primary calls per month: one per request, one per conversation turn
+function monthlyPrimaryCalls(state: EstimatorState) {
+  return state.channels.reduce((sum, channel) => sum + channelMonthlyVolume(channel) * ConversationCalculator(channel).calls, 0)
+}
+
+/**
+ * Models the primary calls go to and each one's share of traffic: the routing
+ * mix when enabled, otherwise everything on model_id. Shares are normalized so
+ * a mix that does not add up to 100% still bills every call once.
+ */
+export function primaryRoutes(state: EstimatorState): { model: ModelPricing; share: number }[] {
+  const routes = state.routing.enabled ? state.routing.routes.filter(route => route.share_pct > 0) : []
+  const totalPct = routes.reduce((sum, route) => sum + route.share_pct, 0)
+  if (totalPct <= 0) return [{ model: getModelPricing(state.model_id), share: 1 }]
+  return routes.map(route => ({ model: getModelPricing(route.model_id), share: route.share_pct / totalPct }))
+}
+
+/**
+ * Models the reflection passes go to: the chosen reflection model, or the
+ * same routes and shares as the primary calls when it follows the main model
+ */
+export function reflectionRoutes(state: EstimatorState): { model: ModelPricing; share: number }[] {
+  if (state.reflection_model_id) return [{ model: getModelPricing(state.reflection_model_id), share: 1 }]
+  return primaryRoutes(state)
+}
+
+/**
+ * Display name of the models behind the primary calls: the route mix with
+ * its shares when routing, otherwise the single model
+ */
+export function primaryModelMix(state: EstimatorState): string {
+  const routes = primaryRoutes(state)
+  return routes.length > 1
+    ? routes.map(route => `${Math.round(route.share * 100)}% ${route.model.name}`).join(' / ')
+    : routes[0].model.name
+}
+
+// Multimodal Calculator
+// Attachment tokens of one transaction on a channel, as billed by a model.
+// PDFs and audio fall back to extracted text and transcripts on models that
+// cannot read them; images have no fallback and are flagged instead.
+export function MultimodalCalculator(channel: ChannelStream, model: ModelPricing) {
+  const nativeAudio = model.audio_tokens_per_minute > 0
+  return {
+    imageTokens: model.image_tokens ? channel.images * model.image_tokens[channel.image_resolution] : 0,
+    pdfTokens: channel.pdf_pages * (model.pdf_page_tokens ?? PDF_TEXT_TOKENS_PER_PAGE),
+    audioTokens: nativeAudio ? channel.audio_minutes * model.audio_tokens_per_minute : 0,
+    transcriptTokens: nativeAudio ? 0 : channel.audio_minutes * TRANSCRIPT_TOKENS_PER_MINUTE,
+    transcriptionMinutes: nativeAudio ? 0 : channel.audio_minutes,
+    imagesUnsupported: channel.images > 0 && !model.image_tokens,
+  }
+}
+
+// Line items rolled up into the multimodal subtotal
+const MULTIMODAL_ITEM_IDS = ['images', 'pdf_pages', 'audio', 'transcripts', 'transcription']
+
+/**
+ * Provider the contract terms apply to: the chosen one, or the provider of
+ * the primary model (largest routing share) when none is set
+ */
+export function contractProvider(state: EstimatorState): string {
+  if (state.contract_provider) return state.contract_provider
+  return [...primaryRoutes(state)].sort((a, b) => b.share - a.share)[0].model.provider
+}
+
+// Cost Calculator
+export function CostCalculator(state: EstimatorState) {
+  const pricing = getModelPricing(state.model_id)
+  const escalationPricing = getModelPricing(state.escalation_model_id)
+  const lineItems: CostLineItem[] = []
+
+  const addLineItem = (
+    id: string,
+    label: string,
+    kind: CostLineItem['kind'],
+    tokens: number,
+    model: ModelPricing = pricing,
+    agentId = PRIMARY_AGENT_ID,
+  ) => {
+    if (tokens <= 0) return
+    const rate = kind === 'output' ? model.output :
+                 kind === 'audio_input' ? model.audio_input :
+                 kind === 'cache_read' ? model.cached_input :
+                 kind === 'cache_write' ? model.cache_write : model.input
+    lineItems.push({ id, label, agent_id: agentId, kind, model_id: model.id, tokens, cost: tokens / 1_000_000 * rate })
+  }
+
+  // Primary-agent tokens, split across the routing mix
+  const routes = primaryRoutes(state)
+  const addPrimaryItem = (id: string, label: string, kind: CostLineItem['kind'], tokens: number) => {
+    for (const route of routes) addLineItem(id, label, kind, tokens * route.share, route.model)
+  }
+
+  // Calculate tokens per month, summed over channels. Conversations make one
+  // primary call per turn, and every call carries the per-call context.
+  const tx = monthlyTransactions(state)
+  const channelTokens = state.channels.map(channel => {
+    const volume = channelMonthlyVolume(channel)
+    const session = ConversationCalculator(channel)
+    return {
+      channel,
+      calls: volume * session.calls,
+      input: volume * session.inputTokens,
+      history: volume * session.historyTokens,
+      output: volume * session.outputTokens,
+      summaryInput: volume * session.summaryInputTokens,
+      summaryOutput: volume * session.summaryOutputTokens,
+    }
+  })
+  const sumChannels = (key: 'input' | 'summaryInput' | 'summaryOutput') =>
+    channelTokens.reduce((sum, c) => sum + c[key], 0)
+
+  // Attachments are billed by whichever model each routed call lands on and
+  // resent with every turn; audio is transcribed once per transaction
+  const mediaByRoute = routes.map(route => {
+    const sumMedia = (key: 'imageTokens' | 'pdfTokens' | 'audioTokens' | 'transcriptTokens' | 'transcriptionMinutes', perCall: boolean) =>
+      channelTokens.reduce((sum, { channel, calls }) =>
+        sum + (perCall ? calls : channelMonthlyVolume(channel)) * MultimodalCalculator(channel, route.model)[key], 0) * route.share
+    return {
+      model: route.model,
+      images: sumMedia('imageTokens', true),
+      pdf: sumMedia('pdfTokens', true),
+      audio: sumMedia('audioTokens', true),
+      transcripts: sumMedia('transcriptTokens', true),
+      transcriptionMinutes: sumMedia('transcriptionMinutes', false),
+    }
+  })
+  const mediaTokens = mediaByRoute.reduce((sum, m) => sum + m.images + m.pdf + m.transcripts, 0)
+  const primaryCalls = channelTokens.reduce((sum, c) => sum + c.calls, 0)
+  const totalInputTokens = channelTokens.reduce((sum, c) => sum + c.input + c.history, 0)
+  const totalOutputTokens = channelTokens.reduce((sum, c) => sum + c.output, 0)
+  const fixedPromptTokens = primaryCalls * state.fixed_prompt_tokens
+
+  // Feature overhead, sent with every primary call
+  const ragTokens = state.rag_queries * primaryCalls * ragTokensPerQuery(state)
+  const dbQueryTokens = state.db_queries * primaryCalls * FEATURE_TOKEN_OVERHEAD.db_query
+  const toolCallTokens = state.tool_calls * primaryCalls * FEATURE_TOKEN_OVERHEAD.tool_call
+  const memoryTokens = state.memory_ops * primaryCalls * FEATURE_TOKEN_OVERHEAD.memory_op
+
+  // Reflection passes re-send the draft with critique instructions
+  const reflectionInputTokens = state.reflection_passes * (totalOutputTokens + primaryCalls * state.reflection_input_tokens)
+  const reflectionOutputTokens = primaryCalls * state.reflection_passes * state.reflection_output_tokens
+
+  // Prompt caching: hits on the fixed prompt bill at the cached rate, misses
+  // re-write the cache. With caching disabled the prompt is plain input.
+  const cachingEnabled = state.cache_hit_pct > 0
+  const cacheReadTokens = cachingEnabled ? fixedPromptTokens * state.cache_hit_pct / 100 : 0
+  const cacheWriteTokens = cachingEnabled ? fixedPromptTokens - cacheReadTokens : 0
+
+  for (const { channel, input, history } of channelTokens) {
+    addPrimaryItem(`input:${channel.id}`, `${channel.name} Input`, 'input', input)
+    addPrimaryItem(`history:${channel.id}`, `${channel.name} History`, 'input', history)
+  }
+  for (const media of mediaByRoute) {
+    addLineItem('images', 'Image Input', 'input', media.images, media.model)
+    addLineItem('pdf_pages', 'PDF Pages', 'input', media.pdf, media.model)
+    addLineItem('audio', 'Audio Input', 'audio_input', media.audio, media.model)
+    addLineItem('transcripts', 'Audio Transcripts', 'input', media.transcripts, media.model)
+  }
+  addPrimaryItem('fixed_prompt', 'Fixed Prompt', 'input', cachingEnabled ? 0 : fixedPromptTokens)
+  addPrimaryItem('cache_write', 'Fixed Prompt (Cache Writes)', 'cache_write', cacheWriteTokens)
+  addPrimaryItem('cache_read', 'Fixed Prompt (Cached Input)', 'cache_read', cacheReadTokens)
+  addPrimaryItem('rag', 'RAG Context', 'input', ragTokens)
+  addPrimaryItem('db', 'Database Queries', 'input', dbQueryTokens)
+  addPrimaryItem('tools', 'Tool/API Calls', 'input', toolCallTokens)
+  addPrimaryItem('memory', 'Memory', 'input', memoryTokens)
+  for (const route of reflectionRoutes(state)) {
+    addLineItem('reflection_input', 'Reflection Input', 'input', reflectionInputTokens * route.share, route.model)
+  }
+  for (const { channel, output } of channelTokens) {
+    addPrimaryItem(`output:${channel.id}`, `${channel.name} Output`, 'output', output)
+  }
+  for (const route of reflectionRoutes(state)) {
+    addLineItem('reflection_output', 'Reflection Output', 'output', reflectionOutputTokens * route.share, route.model)
+  }
+  addPrimaryItem('summary_input', 'History Summaries (Input)', 'input', sumChannels('summaryInput'))
+  addPrimaryItem('summary_output', 'History Summaries (Output)', 'output', sumChannels('summaryOutput'))
+
+  // Router: one classifier call per primary call reads the request and picks a route
+  if (state.routing.enabled) {
+    const classifier = getModelPricing(state.routing.classifier_model_id)
+    addLineItem('router_input', 'Router (Input)', 'input', primaryCalls * state.routing.classifier_prompt_tokens + sumChannels('input'), classifier)
+    addLineItem('router_output', 'Router (Output)', 'output', primaryCalls * state.routing.classifier_output_tokens, classifier)
+  }
+
+  // Failures: parse retries and escalations re-run the whole primary call,
+  // failed tool calls re-send their tool context
+  const primaryPromptTokens = fixedPromptTokens + totalInputTokens + mediaTokens + ragTokens + dbQueryTokens + toolCallTokens + memoryTokens
+  const retryShare = state.parse_retry_pct / 100
+  const escalationShare = state.escalation_pct / 100
+  addPrimaryItem('retry_input', 'Parse Retries (Input)', 'input', retryShare * primaryPromptTokens)
+  addPrimaryItem('retry_output', 'Parse Retries (Output)', 'output', retryShare * totalOutputTokens)
+  addPrimaryItem('tool_retry', 'Tool Call Retries', 'input', toolCallTokens * state.tool_failure_pct / 100)
+  addLineItem('escalation_input', 'Escalations (Input)', 'input', escalationShare * primaryPromptTokens, escalationPricing)
+  addLineItem('escalation_output', 'Escalations (Output)', 'output', escalationShare * totalOutputTokens, escalationPricing)
+
+  // Downstream agents: each bills its own handoff input, features and output
+  for (const agent of state.agents) {
+    const agentPricing = getModelPricing(agent.model_id)
+    addLineItem('agent_input', 'Agent Handoff Input', 'input', tx * agent.input_tokens, agentPricing, agent.id)
+    addLineItem('rag', 'RAG Context', 'input', tx * agent.rag_queries * ragTokensPerQuery(state), agentPricing, agent.id)
+    addLineItem('tools', 'Tool/API Calls', 'input', tx * agent.tool_calls * FEATURE_TOKEN_OVERHEAD.tool_call, agentPricing, agent.id)
+    addLineItem('memory', 'Memory', 'input', tx * agent.memory_ops * FEATURE_TOKEN_OVERHEAD.memory_op, agentPricing, agent.id)
+    addLineItem('agent_output', 'Agent Output', 'output', tx * agent.output_tokens, agentPricing, agent.id)
+  }
+
+  // RAG infrastructure: re-embedding churned documents, embedding queries, vector storage
+  const rag = RagIngestionCalculator(state)
+  if (rag.enabled) {
+    lineItems.push({
+      id: 'embeddings',
+      label: 'Embeddings (Churn + Queries)',
+      agent_id: PRIMARY_AGENT_ID,
+      kind: 'service',
+      tokens: rag.monthlyEmbedTokens,
+      cost: rag.monthlyEmbedCost,
+    })
+    lineItems.push({
+      id: 'vector_storage',
+      label: 'Vector Storage',
+      agent_id: PRIMARY_AGENT_ID,
+      kind: 'service',
+      tokens: 0,
+      cost: rag.storageCost,
+      detail: `${rag.storageGb.toFixed(2)} GB stored`,
+    })
+  }
+
+  // Speech-to-text for audio the model cannot hear
+  const transcriptionMinutes = mediaByRoute.reduce((sum, m) => sum + m.transcriptionMinutes, 0)
+  if (transcriptionMinutes > 0) {
+    lineItems.push({
+      id: 'transcription',
+      label: 'Speech-to-Text',
+      agent_id: PRIMARY_AGENT_ID,
+      kind: 'service',
+      tokens: 0,
+      cost: transcriptionMinutes * TRANSCRIPTION_PER_MINUTE,
+      detail: `${Math.round(transcriptionMinutes).toLocaleString()} audio min`,
+    })
+  }
+
+  // Human review of escalated transactions
+  const reviewedItems = tx * state.review_pct / 100
+  if (reviewedItems > 0) {
+    lineItems.push({
+      id: 'human_review',
+      label: 'Human Review',
+      agent_id: PRIMARY_AGENT_ID,
+      kind: 'human',
+      tokens: 0,
+      cost: reviewedItems * state.review_minutes / 60 * state.reviewer_hourly_rate,
+      detail: `${Math.round(reviewedItems).toLocaleString()} items x ${state.review_minutes} min`,
+    })
+  }
+
+  // User-defined third-party fees, one row each
+  for (const item of state.custom_items) {
+    const units = tx * item.units_per_transaction
+    lineItems.push({
+      id: `custom:${item.id}`,
+      label: item.name || 'Custom Item',
+      agent_id: PRIMARY_AGENT_ID,
+      kind: 'custom',
+      tokens: 0,
+      cost: item.pricing === 'monthly' ? item.monthly_amount : units * item.unit_price,
+      detail: item.pricing === 'monthly' ? 'flat monthly' : `${Math.round(units).toLocaleString()} units`,
+    })
+  }
+
+  const sumItems = (predicate: (item: CostLineItem) => boolean) => lineItems
+    .filter(predicate)
+    .reduce((acc, item) => ({ tokens: acc.tokens + item.tokens, cost: acc.cost + item.cost }), { tokens: 0, cost: 0 })
+
+  // Feature view: one row per line item id, summed across agents
+  const featureItems = lineItems.reduce<CostLineItem[]>((acc, item) => {
+    const existing = acc.find(i => i.id === item.id)
+    if (existing) {
+      existing.tokens += item.tokens
+      existing.cost += item.cost
+    } else {
+      acc.push({ ...item, agent_id: '', model_id: undefined })
+    }
+    return acc
+  }, [])
+
+  const modelMix = primaryModelMix(state)
+
+  // Agent view: one row per agent in pipeline order
+  const agentBreakdown = [
+    { id: PRIMARY_AGENT_ID, name: 'Primary Agent', modelName: modelMix },
+    ...state.agents.map(agent => ({ id: agent.id, name: agent.name, modelName: getModelPricing(agent.model_id).name })),
+  ].map(agent => {
+    const items = sumItems(item => item.agent_id === agent.id)
+    return { ...agent, tokens: items.tokens, cost: items.cost }
+  })
+
+  // Model view: LLM tokens per catalog model, for rate-limit checks
+  const tokensByModel = lineItems.reduce<Record<string, number>>((acc, item) => {
+    if (item.model_id) acc[item.model_id] = (acc[item.model_id] || 0) + item.tokens
+    return acc
+  }, {})
+
+  const input = sumItems(item => item.kind === 'input' || item.kind === 'audio_input' || item.kind === 'cache_read' || item.kind === 'cache_write')
+  const output = sumItems(item => item.kind === 'output')
+  const services = sumItems(item => item.kind === 'service')
+  const humanReview = sumItems(item => item.kind === 'human')
+  const custom = sumItems(item => item.kind === 'custom')
+  const multimodal = sumItems(item => MULTIMODAL_ITEM_IDS.includes(item.id))
+  const modelCost = input.cost + output.cost
+  const listPriceMonthly = modelCost + services.cost + humanReview.cost + custom.cost
+
+  // Volume tiers: graduated discounts on the contract provider's model spend
+  // by its monthly token volume; other providers stay at list price
+  const provider = contractProvider(state)
+  const onContract = (item: CostLineItem) => !!item.model_id && getModelPricing(item.model_id).provider === provider
+  const contract = sumItems(onContract)
+  const tieredContractCost = applyVolumeTiers(contract.cost, contract.tokens, state.volume_tiers)
+  const tierSavings = contract.cost - tieredContractCost
+  const tieredModelCost = modelCost - tierSavings
+
+  // Batch: the eligible share of each line item gets its own model's batch
+  // discount; models without a batch API stay at realtime rates
+  const contractTierFactor = contract.cost > 0 ? tieredContractCost / contract.cost : 1
+  const batchFraction = state.batch_share_pct / 100
+  let batchListCost = 0
+  let batchCost = 0
+  let contractUsageCost = 0
+  for (const item of lineItems) {
+    if (!item.model_id) continue
+    const tiered = item.cost * (onContract(item) ? contractTierFactor : 1)
+    const discount = getModelPricing(item.model_id).batch_discount
+    const eligible = discount > 0 ? tiered * batchFraction : 0
+    batchListCost += eligible
+    batchCost += eligible * (1 - discount)
+    if (onContract(item)) contractUsageCost += tiered - eligible * discount
+  }
+  const realtimeCost = tieredModelCost - batchListCost
+  const batchSavings = batchListCost - batchCost
+  const batchShare = batchListCost > 0 ? batchFraction : 0
+  const unbatchedModels = Object.keys(tokensByModel)
+    .map(modelId => getModelPricing(modelId))
+    .filter(model => model.batch_discount === 0)
+
+  // Committed use: discount on the contract provider's usage, topped up to
+  // the monthly minimum
+  const usageCost = realtimeCost + batchCost
+  const commitDiscount = contractUsageCost * state.commit_discount_pct / 100
+  const commitShortfall = Math.max(0, state.commit_minimum_monthly - (contractUsageCost - commitDiscount))
+  const contractBilledCost = contractUsageCost - commitDiscount + commitShortfall
+  const modelBilledCost = usageCost - commitDiscount + commitShortfall
+
+  const totalMonthly = modelBilledCost + services.cost + humanReview.cost + custom.cost
+
+  return {
+    lineItems: featureItems,
+    agentBreakdown,
+    tokensByModel,
+    transactions: tx,
+    primaryCalls,
+    inputTokens: input.tokens,
+    outputTokens: output.tokens,
+    inputCost: input.cost,
+    outputCost: output.cost,
+    servicesCost: services.cost,
+    humanReviewCost: humanReview.cost,
+    customCost: custom.cost,
+    multimodalTokens: multimodal.tokens,
+    multimodalCost: multimodal.cost,
+    rag,
+    listPriceMonthly,
+    realtimeCost,
+    batchCost,
+    batchSavings,
+    batchShare,
+    unbatchedModels,
+    tierSavings,
+    commitDiscount,
+    commitShortfall,
+    contractProvider: provider,
+    contractTokens: contract.tokens,
+    contractListCost: contract.cost,
+    contractBilledCost,
+    modelBilledCost,
+    totalMonthly,
+    totalAnnual: totalMonthly * 12,
+    model: pricing,
+    modelMix,
+    routes,
+    pricingVersion: PRICING_CATALOG_VERSION,
+  }
+}
+
+export type CostEstimate = ReturnType<typeof CostCalculator>
+
+// Routing Comparison
+// Blended cost of the routing mix against the configured single model it
+// replaces (the baseline), plus all traffic on each routed model on its own
+// (no classifier) for context. Null when routing is off.
+export function RoutingComparison(state: EstimatorState) {
+  if (!state.routing.enabled) return null
+
+  const blended = CostCalculator(state)
+  const singleModelCost = (modelId: string) =>
+    CostCalculator({ ...state, model_id: modelId, routing: { ...state.routing, enabled: false } })
+  const baseline = singleModelCost(state.model_id)
+  const singleModel = Array.from(new Set(blended.routes.map(route => route.model.id)))
+    .filter(modelId => modelId !== baseline.model.id)
+    .map(singleModelCost)
+    .sort((a, b) => b.totalMonthly - a.totalMonthly)
+
+  return {
+    blended,
+    singleModel,
+    baseline,
+    savings: baseline.totalMonthly - blended.totalMonthly,
+    savingsPct: baseline.totalMonthly > 0 ? (baseline.totalMonthly - blended.totalMonthly) / baseline.totalMonthly * 100 : 0,
+  }
+}
+
+// Discounted cost of model spend under graduated volume tiers. Each token is
+// priced at the average list rate, less the discount of the band it falls in.
+export function applyVolumeTiers(listCost: number, tokens: number, tiers: VolumeTier[]) {
+  if (tokens <= 0 || tiers.length === 0) return listCost
+
+  const ratePerToken = listCost / tokens
+  const bands = [...tiers].sort((a, b) => a.above_million_tokens - b.above_million_tokens)
+
+  let cost = 0
+  let bandStart = 0
+  let discount = 0
+  for (const tier of bands) {
+    const bandEnd = Math.min(tokens, tier.above_million_tokens * 1_000_000)
+    cost += Math.max(0, bandEnd - bandStart) * ratePerToken * (1 - discount / 100)
+    bandStart = Math.max(bandStart, bandEnd)
+    discount = tier.discount_pct
+  }
+  cost += Math.max(0, tokens - bandStart) * ratePerToken * (1 - discount / 100)
+
+  return cost
+}
+
+// Effective Rate Calculator
+const EFFECTIVE_RATE_POINTS = 24
+
+// The contract provider's model spend per million tokens at list price and
+// after contract terms, as monthly volume scales from a fraction of the
+// current estimate to past the highest tier
+export function EffectiveRateCalculator(state: EstimatorState) {
+  const current = CostCalculator(state)
+  const currentTokens = current.contractTokens
+  if (currentTokens === 0) return []
+
+  const highestTier = Math.max(0, ...state.volume_tiers.map(tier => tier.above_million_tokens * 1_000_000))
+  const maxTokens = Math.max(currentTokens * 4, highestTier * 2)
+
+  return Array.from({ length: EFFECTIVE_RATE_POINTS }, (_, i) => {
+    const tokens = maxTokens * (i + 1) / EFFECTIVE_RATE_POINTS
+    const costs = CostCalculator(scaleVolume(state, tokens / currentTokens))
+    return {
+      millionTokens: costs.contractTokens / 1_000_000,
+      listRate: costs.contractListCost / costs.contractTokens * 1_000_000,
+      effectiveRate: costs.contractBilledCost / costs.contractTokens * 1_000_000,
+    }
+  })
+}
+
+// RAG Ingestion Calculator
+function ragTokensPerQuery(state: EstimatorState) {
+  return state.rag_top_k * state.rag_chunk_tokens
+}
+
+function RagIngestionCalculator(state: EstimatorState) {
+  const embedding = getEmbeddingPricing(state.embedding_model_id)
+  const enabled = state.rag_queries > 0 || state.agents.some(agent => agent.rag_queries > 0)
+
+  const chunksPerDoc = Math.ceil(state.rag_doc_tokens / Math.max(1, state.rag_chunk_tokens))
+  const totalChunks = enabled ? state.rag_corpus_docs * chunksPerDoc : 0
+
+  // One-time: embed the whole corpus
+  const oneTimeTokens = enabled ? state.rag_corpus_docs * state.rag_doc_tokens : 0
+  const oneTimeCost = oneTimeTokens / 1_000_000 * embedding.input
+
+  // Recurring: re-embed new and updated documents, plus every query
+  const agentQueries = state.agents.reduce((sum, agent) => sum + agent.rag_queries, 0)
+  const churnTokens = enabled ? state.rag_docs_churn_per_month * state.rag_doc_tokens : 0
+  const queryTokens = (monthlyPrimaryCalls(state) * state.rag_queries + monthlyTransactions(state) * agentQueries) * RAG_QUERY_EMBED_TOKENS
+  const monthlyEmbedTokens = churnTokens + queryTokens
+  const monthlyEmbedCost = monthlyEmbedTokens / 1_000_000 * embedding.input
+
+  const bytesPerChunk = embedding.dimensions * 4 + state.rag_chunk_tokens * RAG_BYTES_PER_CHUNK_TOKEN
+  const storageGb = totalChunks * bytesPerChunk / 1_000_000_000
+  const storageCost = storageGb * VECTOR_STORAGE_PER_GB_MONTH
+
+  return {
+    enabled,
+    embedding,
+    totalChunks,
+    oneTimeTokens,
+    oneTimeCost,
+    churnTokens,
+    queryTokens,
+    monthlyEmbedTokens,
+    monthlyEmbedCost,
+    storageGb,
+    storageCost,
+  }
+}
+
+// Volume Search
+// Cost is not affine in volume (commitment floors, graduated tiers, batch
+// and routing mixes), so volumes are found by search rather than solved for
+const MAX_SEARCH_VOLUME = 1_000_000_000
+
+// Largest monthly volume at which `holds` is true, doubling from `start`
+// until it fails and then bisecting to within 0.1%. Assumes `holds` is true
+// below some volume and false above it. Returns null when it fails at 1 and
+// MAX_SEARCH_VOLUME when it never fails.
+function searchVolume(holds: (volume: number) => boolean, start: number): number | null {
+  if (!holds(1)) return null
+
+  let low = 1
+  let high = Math.min(MAX_SEARCH_VOLUME, Math.max(2, Math.ceil(start)))
+  while (holds(high)) {
+    if (high >= MAX_SEARCH_VOLUME) return MAX_SEARCH_VOLUME
+    low = high
+    high = Math.min(MAX_SEARCH_VOLUME, high * 2)
+  }
+  while (high - low > Math.max(1, low * 0.001)) {
+    const mid = Math.floor((low + high) / 2)
+    if (holds(mid)) low = mid
+    else high = mid
+  }
+  return low
+}
+
+// ROI Calculator
+export function RoiCalculator(state: EstimatorState) {
+  const costs = CostCalculator(state)
+  const humanCostPerTransaction = state.human_minutes_per_transaction / 60 * state.human_hourly_rate
+
+  // Without the agent every transaction is handled by hand; with it, the
+  // bill already includes reviewer time for escalations
+  const transactions = monthlyTransactions(state)
+  const manualMonthly = transactions * humanCostPerTransaction
+  const withAgentMonthly = costs.totalMonthly
+  const monthlySavings = manualMonthly - withAgentMonthly
+
+  const oneTimeCost = state.implementation_cost + costs.rag.oneTimeCost
+  const paybackMonths = monthlySavings > 0 ? oneTimeCost / monthlySavings : null
+
+  // Break-even: lowest volume where labour saved covers the AI bill
+  const losesMoney = (volume: number) =>
+    volume * humanCostPerTransaction < CostCalculator(withMonthlyVolume(state, volume)).totalMonthly
+  const lastLosingVolume = state.channels.length > 0 && humanCostPerTransaction > 0
+    ? searchVolume(losesMoney, transactions)
+    : MAX_SEARCH_VOLUME
+  const breakEvenVolume = lastLosingVolume === null ? 1
+    : lastLosingVolume >= MAX_SEARCH_VOLUME ? null
+    : lastLosingVolume + 1
+
+  return {
+    manualMonthly,
+    withAgentMonthly,
+    monthlySavings,
+    oneTimeCost,
+    paybackMonths,
+    breakEvenVolume,
+    humanCostPerTransaction,
+  }
+}
+
+// Monte Carlo Simulation
+export const SIMULATION_RUNS = 1000
+
+const HISTOGRAM_BINS = 20
+
+// Small seeded PRNG (mulberry32) so the same inputs always give the same percentiles
+function seededRandom(seed: number) {
+  let t = seed
+  return () => {
+    t = (t + 0x6D2B79F5) | 0
+    let r = Math.imul(t ^ (t >>> 15), 1 | t)
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Multiplier around 1.0 drawn from the range's distribution
+function sampleFactor(range: UncertaintyRange, distribution: EstimatorState['distribution'], random: () => number) {
+  const low = 1 - range.low_pct / 100
+  const high = 1 + range.high_pct / 100
+  const u = random()
+  if (distribution === 'uniform' || high === low) return low + u * (high - low)
+
+  // Triangular with the point estimate (1.0) as the mode
+  const split = (1 - low) / (high - low)
+  return u < split
+    ? low + Math.sqrt(u * (high - low) * (1 - low))
+    : high - Math.sqrt((1 - u) * (high - low) * (high - 1))
+}
+
+export function MonteCarloSimulator(state: EstimatorState, runs = SIMULATION_RUNS, seed = 42) {
+  const random = seededRandom(seed)
+  const { uncertainty, distribution } = state
+
+  const samples = Array.from({ length: runs }, () => {
+    const volume = sampleFactor(uncertainty.transactions_per_month, distribution, random)
+    const input = sampleFactor(uncertainty.input_tokens, distribution, random)
+    const output = sampleFactor(uncertainty.output_tokens, distribution, random)
+    const features = sampleFactor(uncertainty.feature_usage, distribution, random)
+
+    const sampled = scaleChannelTokens(scaleVolume(state, volume), input, output)
+    return CostCalculator({
+      ...sampled,
+      rag_queries: state.rag_queries * features,
+      db_queries: state.db_queries * features,
+      tool_calls: state.tool_calls * features,
+      memory_ops: state.memory_ops * features,
+      agents: state.agents.map(agent => ({
+        ...agent,
+        input_tokens: agent.input_tokens * input,
+        output_tokens: agent.output_tokens * output,
+        rag_queries: agent.rag_queries * features,
+        tool_calls: agent.tool_calls * features,
+        memory_ops: agent.memory_ops * features,
+      })),
+    }).totalMonthly
+  }).sort((a, b) => a - b)
+
+  const percentile = (p: number) => samples[Math.floor(p * (samples.length - 1))]
+
+  const min = samples[0]
+  const max = samples[samples.length - 1]
+  const binWidth = (max - min) / HISTOGRAM_BINS || 1
+  const histogram = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({
+    from: min + i * binWidth,
+    midpoint: min + (i + 0.5) * binWidth,
+    count: 0,
+  }))
+  for (const sample of samples) {
+    histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor((sample - min) / binWidth))].count++
+  }
+
+  return {
+    p10: percentile(0.1),
+    p50: percentile(0.5),
+    p90: percentile(0.9),
+    min,
+    max,
+    histogram,
+  }
+}
+
+// Feasibility Validation
+
+// Prompt size of the largest primary call on a channel: fixed prompt, request
+// content (with history on the last turn of a conversation) and feature overheads
+function perCallPromptTokens(state: EstimatorState, channel: ChannelStream, model: ModelPricing) {
+  const media = MultimodalCalculator(channel, model)
+  return state.fixed_prompt_tokens +
+    ConversationCalculator(channel).maxTurnInputTokens +
+    media.imageTokens + media.pdfTokens + media.audioTokens + media.transcriptTokens +
+    state.rag_queries * ragTokensPerQuery(state) +
+    state.db_queries * FEATURE_TOKEN_OVERHEAD.db_query +
+    state.tool_calls * FEATURE_TOKEN_OVERHEAD.tool_call +
+    state.memory_ops * FEATURE_TOKEN_OVERHEAD.memory_op
+}
+
+// Latency Calculator
+// Sequential steps of one transaction on a channel: each agent's feature
+// round-trips, then its model call (time to first token plus streaming the output)
+export function LatencyCalculator(state: EstimatorState, channel: ChannelStream) {
+  const steps: { label: string; p50Ms: number; worstMs: number }[] = []
+
+  const addModelCall = (label: string, model: ModelPricing, outputTokens: number, repeat = 1) => {
+    if (repeat <= 0) return
+    const callMs = model.ttft_ms + outputTokens / model.output_tokens_per_second * 1000
+    steps.push({ label, p50Ms: callMs * repeat, worstMs: callMs * repeat * WORST_CASE_MODEL_FACTOR })
+  }
+  const addRoundTrips = (label: string, counts: { rag: number; db: number; tools: number; memory: number }) => {
+    const ms = counts.rag * FEATURE_ROUND_TRIP_MS.rag_query +
+      counts.db * FEATURE_ROUND_TRIP_MS.db_query +
+      counts.tools * FEATURE_ROUND_TRIP_MS.tool_call +
+      counts.memory * FEATURE_ROUND_TRIP_MS.memory_op
+    if (ms > 0) steps.push({ label, p50Ms: ms, worstMs: ms * WORST_CASE_ROUND_TRIP_FACTOR })
+  }
+
+  if (state.routing.enabled) {
+    const classifier = getModelPricing(state.routing.classifier_model_id)
+    addModelCall(`Router: ${classifier.name}`, classifier, state.routing.classifier_output_tokens)
+  }
+  addRoundTrips('Primary Agent: RAG/DB/Tools', {
+    rag: state.rag_queries,
+    db: state.db_queries,
+    tools: state.tool_calls,
+    memory: state.memory_ops,
+  })
+
+  // A routed call is typical on the route taking most traffic and worst on the slowest route
+  const modelCallMs = (model: ModelPricing) => model.ttft_ms + channel.output_tokens / model.output_tokens_per_second * 1000
+  const routes = primaryRoutes(state)
+  const primary = [...routes].sort((a, b) => b.share - a.share)[0].model
+  const slowest = [...routes].sort((a, b) => modelCallMs(b.model) - modelCallMs(a.model))[0].model
+  steps.push({
+    label: `Primary Agent: ${routes.length > 1 ? routes.map(route => route.model.name).join(' / ') : primary.name}`,
+    p50Ms: modelCallMs(primary),
+    worstMs: modelCallMs(slowest) * WORST_CASE_MODEL_FACTOR,
+  })
+
+  // Reflection follows the same typical and slowest routes unless it has its own model
+  if (state.reflection_passes > 0) {
+    const reflectionMs = (model: ModelPricing) => (model.ttft_ms + state.reflection_output_tokens / model.output_tokens_per_second * 1000) * state.reflection_passes
+    const reflection = reflectionRoutes(state)
+    const typical = [...reflection].sort((a, b) => b.share - a.share)[0].model
+    const slowestReflection = [...reflection].sort((a, b) => reflectionMs(b.model) - reflectionMs(a.model))[0].model
+    steps.push({
+      label: `Reflection (${state.reflection_passes}x): ${reflection.map(route => route.model.name).join(' / ')}`,
+      p50Ms: reflectionMs(typical),
+      worstMs: reflectionMs(slowestReflection) * WORST_CASE_MODEL_FACTOR,
+    })
+  }
+
+  for (const agent of state.agents) {
+    const model = getModelPricing(agent.model_id)
+    addRoundTrips(`${agent.name}: RAG/Tools`, {
+      rag: agent.rag_queries,
+      db: 0,
+      tools: agent.tool_calls,
+      memory: agent.memory_ops,
+    })
+    addModelCall(`${agent.name}: ${model.name}`, model, agent.output_tokens)
+  }
+
+  const p50Ms = steps.reduce((sum, step) => sum + step.p50Ms, 0)
+
+  // Failure paths only count towards the worst case
+  const escalation = getModelPricing(state.escalation_model_id)
+  const retryMs = state.parse_retry_pct > 0 ? modelCallMs(slowest) * WORST_CASE_MODEL_FACTOR : 0
+  const escalationMs = state.escalation_pct > 0 ? modelCallMs(escalation) * WORST_CASE_MODEL_FACTOR : 0
+  const worstMs = steps.reduce((sum, step) => sum + step.worstMs, 0) + retryMs + escalationMs
+
+  return { steps, p50Ms, worstMs, retryMs, escalationMs }
+}
+
+// Throughput Calculator
+// Peak-minute demand on each model against its default per-key rate limits.
+// Each channel's volume is spread over the days it runs on; the busiest hour
+// carries peak_hour_pct of the day, and channels peak together.
+export function ThroughputCalculator(state: EstimatorState) {
+  const costs = CostCalculator(state)
+  const transactionsPerDay = state.channels.reduce(
+    (sum, channel) => sum + channelMonthlyVolume(channel) / activeDaysPerMonth(channel),
+    0,
+  )
+  const peakTransactionsPerMinute = transactionsPerDay * state.peak_hour_pct / 100 / 60
+
+  // Model requests per transaction: the primary calls (one per conversation
+  // turn, split across routes, each with a router call) and their parse
+  // retries, reflection passes and escalations, and one call per downstream agent
+  const callsPerTransaction = costs.transactions > 0 ? costs.primaryCalls / costs.transactions : 1
+  const requestsPerTransaction: Record<string, number> = {}
+  const addRequests = (modelId: string, count: number) => {
+    if (count > 0) requestsPerTransaction[modelId] = (requestsPerTransaction[modelId] || 0) + count
+  }
+  for (const route of costs.routes) {
+    addRequests(route.model.id, route.share * callsPerTransaction * (1 + state.parse_retry_pct / 100))
+  }
+  if (state.routing.enabled) addRequests(state.routing.classifier_model_id, callsPerTransaction)
+  for (const route of reflectionRoutes(state)) {
+    addRequests(route.model.id, route.share * callsPerTransaction * state.reflection_passes)
+  }
+  addRequests(state.escalation_model_id, callsPerTransaction * state.escalation_pct / 100)
+  for (const agent of state.agents) addRequests(agent.model_id, 1)
+
+  const models = Object.keys(requestsPerTransaction).map(modelId => {
+    const model = getModelPricing(modelId)
+    const tokensPerTransaction = costs.transactions > 0
+      ? (costs.tokensByModel[modelId] || 0) / costs.transactions
+      : 0
+    const peakRpm = peakTransactionsPerMinute * requestsPerTransaction[modelId]
+    const peakTpm = peakTransactionsPerMinute * tokensPerTransaction
+    const utilization = Math.max(peakRpm / model.rpm, peakTpm / model.tpm)
+    return {
+      model,
+      peakRpm,
+      peakTpm,
+      utilization,
+      keysRequired: Math.max(1, Math.ceil(utilization)),
+      provisionedUnits: model.provisioned_unit_tpm > 0 ? Math.ceil(peakTpm / model.provisioned_unit_tpm) : null,
+    }
+  })
+
+  return { peakTransactionsPerMinute, models }
+}
+
+// Cheapest catalog model satisfying a constraint, for "switch to" suggestions
+function cheapestModelWhere(predicate: (model: ModelPricing) => boolean) {
+  return MODEL_CATALOG
+    .filter(predicate)
+    .sort((a, b) => a.input - b.input)[0]
+}
+
+export function validateEstimate(state: EstimatorState): EstimateIssue[] {
+  const primaryModels = primaryRoutes(state).map(route => route.model)
+  const channels = activeChannels(state)
+  const issues: EstimateIssue[] = []
+
+  if (state.routing.enabled) {
+    const totalPct = state.routing.routes.reduce((sum, route) => sum + route.share_pct, 0)
+    if (totalPct !== 100) {
+      issues.push({
+        severity: 'warning',
+        message: `Routing shares add up to ${totalPct}% of traffic.`,
+        suggestion: totalPct > 0
+          ? 'The estimate scales them to 100%; adjust the shares so the mix reads as intended.'
+          : 'Give at least one route a share, or turn routing off - all traffic is billed on the configured model.',
+      })
+    }
+  }
+
+  for (const channel of channels) {
+    for (const model of primaryModels) {
+      if (MultimodalCalculator(channel, model).imagesUnsupported) {
+        const alternative = cheapestModelWhere(m => m.image_tokens !== null)
+        issues.push({
+          severity: 'error',
+          message: `${channel.name} sends ${channel.images} image${channel.images === 1 ? '' : 's'} per transaction, but ${model.name} cannot read images.`,
+          suggestion: `Switch to a vision model${alternative ? ` such as ${alternative.name}` : ''}, or describe the images as text upstream.`,
+        })
+      }
+
+      const promptTokens = perCallPromptTokens(state, channel, model)
+      const requiredContext = promptTokens + channel.output_tokens
+
+      if (requiredContext > model.context_window) {
+        const overflow = requiredContext - model.context_window
+        const fixes: string[] = []
+
+        const ragCut = Math.ceil(overflow / Math.max(1, ragTokensPerQuery(state)))
+        if (state.rag_queries > 0 && ragCut <= state.rag_queries) {
+          fixes.push(`cut RAG queries to ${state.rag_queries - ragCut}`)
+        }
+        if (channel.workload === 'conversation' && channel.history_strategy === 'full' && channel.turns_per_session > 1) {
+          fixes.push(`truncate or summarize ${channel.name} history`)
+        }
+        if (overflow < channel.input_tokens) {
+          fixes.push(`trim ${channel.name} input to ${(channel.input_tokens - overflow).toLocaleString()} tokens`)
+        }
+        const alternative = cheapestModelWhere(m => m.context_window >= requiredContext)
+        if (alternative) {
+          fixes.push(`switch to ${alternative.name} (${alternative.context_window.toLocaleString()}-token context)`)
+        }
+
+        issues.push({
+          severity: 'error',
+          message: `Each ${channel.name} call needs ${requiredContext.toLocaleString()} tokens (${promptTokens.toLocaleString()} prompt + ${channel.output_tokens.toLocaleString()} output), but ${model.name} has a ${model.context_window.toLocaleString()}-token context window.`,
+          suggestion: fixes.length > 0 ? `Try to ${fixes.join(', or ')}.` : 'Split the request across multiple calls.',
+        })
+      } else if (requiredContext > model.context_window * 0.8) {
+        issues.push({
+          severity: 'warning',
+          message: `Each ${channel.name} call uses ${Math.round(requiredContext / model.context_window * 100)}% of ${model.name}'s context window.`,
+          suggestion: 'Leave headroom for longer-than-average inputs, or pick a model with a larger context.',
+        })
+      }
+
+      if (channel.output_tokens > model.max_output_tokens) {
+        const alternative = cheapestModelWhere(m => m.max_output_tokens >= channel.output_tokens)
+        issues.push({
+          severity: 'error',
+          message: `${channel.name} replies of ${channel.output_tokens.toLocaleString()} output tokens exceed ${model.name}'s ${model.max_output_tokens.toLocaleString()}-token output cap.`,
+          suggestion: `Lower ${channel.name} output to ${model.max_output_tokens.toLocaleString()} tokens${alternative ? ` or switch to ${alternative.name} (up to ${alternative.max_output_tokens.toLocaleString()} output tokens)` : ''}.`,
+        })
+      }
+    }
+
+    if (state.escalation_pct > 0) {
+      const escalationModel = getModelPricing(state.escalation_model_id)
+      const requiredContext = perCallPromptTokens(state, channel, escalationModel) + channel.output_tokens
+      if (requiredContext > escalationModel.context_window || channel.output_tokens > escalationModel.max_output_tokens) {
+        issues.push({
+          severity: 'error',
+          message: `Escalated ${channel.name} requests cannot run on ${escalationModel.name}: they need ${requiredContext.toLocaleString()} tokens of context and ${channel.output_tokens.toLocaleString()} output tokens.`,
+          suggestion: 'Pick an escalation model with a larger context window and output cap.',
+        })
+      }
+    }
+  }
+
+  for (const agent of state.agents) {
+    const agentModel = getModelPricing(agent.model_id)
+    const agentContext = agent.input_tokens +
+      agent.rag_queries * ragTokensPerQuery(state) +
+      agent.tool_calls * FEATURE_TOKEN_OVERHEAD.tool_call +
+      agent.memory_ops * FEATURE_TOKEN_OVERHEAD.memory_op +
+      agent.output_tokens
+    if (agentContext > agentModel.context_window) {
+      issues.push({
+        severity: 'error',
+        message: `${agent.name} needs ${agentContext.toLocaleString()} tokens per call, but ${agentModel.name} has a ${agentModel.context_window.toLocaleString()}-token context window.`,
+        suggestion: 'Trim its input or RAG queries, or give it a model with a larger context.',
+      })
+    }
+    if (agent.output_tokens > agentModel.max_output_tokens) {
+      issues.push({
+        severity: 'error',
+        message: `${agent.name} produces ${agent.output_tokens.toLocaleString()} output tokens, above ${agentModel.name}'s ${agentModel.max_output_tokens.toLocaleString()}-token cap.`,
+        suggestion: `Lower its output to ${agentModel.max_output_tokens.toLocaleString()} tokens or give it a different model.`,
+      })
+    }
+  }
+
+  // The longest draft any channel produces is re-sent on each pass
+  const longestDraft = Math.max(0, ...channels.map(channel => channel.output_tokens))
+  const reflectionContext = longestDraft + state.reflection_input_tokens + state.reflection_output_tokens
+  for (const { model: reflectionModel } of state.reflection_passes > 0 ? reflectionRoutes(state) : []) {
+    if (reflectionContext > reflectionModel.context_window) {
+      issues.push({
+        severity: 'error',
+        message: `Each reflection pass needs ${reflectionContext.toLocaleString()} tokens, but ${reflectionModel.name} has a ${reflectionModel.context_window.toLocaleString()}-token context window.`,
+        suggestion: 'Shorten the draft or critique instructions, or pick a reflection model with a larger context.',
+      })
+    }
+    if (state.reflection_output_tokens > reflectionModel.max_output_tokens) {
+      issues.push({
+        severity: 'error',
+        message: `${state.reflection_output_tokens.toLocaleString()} reflection output tokens exceeds ${reflectionModel.name}'s ${reflectionModel.max_output_tokens.toLocaleString()}-token output cap.`,
+        suggestion: `Lower reflection output to ${reflectionModel.max_output_tokens.toLocaleString()} tokens or pick a different reflection model.`,
+      })
+    }
+  }
+
+  for (const channel of channels.filter(c => c.sla_seconds > 0)) {
+    const latency = LatencyCalculator(state, channel)
+    const slaMs = channel.sla_seconds * 1000
+    const unit = channel.workload === 'conversation' ? 'turn' : 'transaction'
+    const slowest = [...latency.steps].sort((a, b) => b.p50Ms - a.p50Ms)[0]
+    if (latency.p50Ms > slaMs) {
+      issues.push({
+        severity: 'warning',
+        title: 'Too slow for the response-time SLA',
+        message: `A typical ${channel.name} ${unit} takes ${(latency.p50Ms / 1000).toFixed(1)}s end to end, over the ${channel.sla_seconds}s users will wait.`,
+        suggestion: `The slowest step is ${slowest.label} (${(slowest.p50Ms / 1000).toFixed(1)}s). Use a faster model, shorter outputs, fewer sequential agents, or stream the first agent's reply.`,
+      })
+    } else if (latency.worstMs > slaMs) {
+      issues.push({
+        severity: 'warning',
+        title: 'Slow transactions will miss the SLA',
+        message: `Typical ${channel.name} latency is ${(latency.p50Ms / 1000).toFixed(1)}s, but slow responses and retries can take ${(latency.worstMs / 1000).toFixed(1)}s against a ${channel.sla_seconds}s SLA.`,
+        suggestion: 'Set timeouts with a fallback reply, or move retries and escalations off the interactive path.',
+      })
+    }
+  }
+
+  for (const demand of ThroughputCalculator(state).models) {
+    const { model } = demand
+    const load = `${Math.round(demand.peakRpm).toLocaleString()} requests and ${Math.round(demand.peakTpm).toLocaleString()} tokens per minute`
+    if (demand.utilization > 1) {
+      const units = demand.provisionedUnits !== null ? ` or ${demand.provisionedUnits} provisioned throughput units` : ''
+      issues.push({
+        severity: 'warning',
+        message: `At peak, ${model.name} sees ${load}, above its default limits of ${model.rpm.toLocaleString()} RPM and ${model.tpm.toLocaleString()} TPM per key.`,
+        suggestion: `Spread traffic across ${demand.keysRequired} API keys${units}, or request a limit increase before launch.`,
+      })
+    } else if (demand.utilization > 0.8) {
+      issues.push({
+        severity: 'warning',
+        message: `At peak, ${model.name} runs at ${Math.round(demand.utilization * 100)}% of its per-key rate limit (${load}).`,
+        suggestion: 'Bursts above the average peak hour will be throttled - add a second key or request a limit increase.',
+      })
+    }
+  }
+
+  return issues
+}
+
+// Sensitivity Analysis
+const TIER_ORDER: ModelTier[] = ['budget', 'standard', 'premium']
+
+// Default model one tier below or above the current model (same model at the ends)
+function adjacentTierModel(modelId: string, offset: -1 | 1) {
+  const index = TIER_ORDER.indexOf(getModelPricing(modelId).tier) + offset
+  return index >= 0 && index < TIER_ORDER.length ? TIER_DEFAULT_MODEL[TIER_ORDER[index]] : modelId
+}
+
+// Every primary model one tier down or up: each route when routing,
+// otherwise the configured model
+function shiftModelTier(state: EstimatorState, offset: -1 | 1): EstimatorState {
+  if (!state.routing.enabled) return { ...state, model_id: adjacentTierModel(state.model_id, offset) }
+  return {
+    ...state,
+    routing: {
+      ...state.routing,
+      routes: state.routing.routes.map(route => ({ ...route, model_id: adjacentTierModel(route.model_id, offset) })),
+    },
+  }
+}
+
+export function SensitivityAnalyzer(state: EstimatorState, variationPct: number) {
+  const base = CostCalculator(state).totalMonthly
+  const scale = (value: number, direction: -1 | 1) => value * (1 + direction * variationPct / 100)
+
+  const parameters: { label: string; vary: (direction: -1 | 1) => EstimatorState }[] = [
+    { label: 'Transactions', vary: d => scaleVolume(state, scale(1, d)) },
+    { label: 'Input Tokens', vary: d => scaleChannelTokens(state, scale(1, d), 1) },
+    { label: 'Output Tokens', vary: d => scaleChannelTokens(state, 1, scale(1, d)) },
+    { label: 'RAG Queries', vary: d => ({ ...state, rag_queries: scale(state.rag_queries, d) }) },
+    { label: 'DB Queries', vary: d => ({ ...state, db_queries: scale(state.db_queries, d) }) },
+    { label: 'Tool Calls', vary: d => ({ ...state, tool_calls: scale(state.tool_calls, d) }) },
+    { label: 'Memory Ops', vary: d => ({ ...state, memory_ops: scale(state.memory_ops, d) }) },
+    {
+      label: 'Inter-Agent Traffic',
+      vary: d => ({
+        ...state,
+        agents: state.agents.map(agent => ({
+          ...agent,
+          input_tokens: scale(agent.input_tokens, d),
+          output_tokens: scale(agent.output_tokens, d),
+        })),
+      }),
+    },
+    { label: 'Model Tier', vary: d => shiftModelTier(state, d) },
+  ]
+
+  const results = parameters
+    .map(({ label, vary }) => {
+      const low = CostCalculator(vary(-1)).totalMonthly
+      const high = CostCalculator(vary(1)).totalMonthly
+      return { label, low, high, lowDelta: low - base, highDelta: high - base, swing: Math.abs(high - low) }
+    })
+    .filter(result => result.swing > 0)
+    .sort((a, b) => b.swing - a.swing)
+
+  return { base, results }
+}
+
+// Growth Projection
+export interface ProjectionSettings {
+  start_volume: number
+  growth_pct: number
+  // 0 = no ceiling
+  volume_ceiling: number
+  horizon_months: number
+  // USD
+  budget_thresholds: number[]
+}
+
+export function GrowthProjectionCalculator(state: EstimatorState, settings: ProjectionSettings) {
+  let cumulative = 0
+  const months = Array.from({ length: settings.horizon_months }, (_, i) => {
+    const grown = settings.start_volume * Math.pow(1 + settings.growth_pct / 100, i)
+    const volume = Math.round(settings.volume_ceiling > 0 ? Math.min(grown, settings.volume_ceiling) : grown)
+    const monthlyCost = CostCalculator(withMonthlyVolume(state, volume)).totalMonthly
+    cumulative += monthlyCost
+    return { month: i + 1, volume, monthlyCost, cumulative }
+  })
+
+  // First month whose spend reaches each budget threshold (null = never within the horizon)
+  const thresholdCrossings = settings.budget_thresholds.map(threshold => ({
+    threshold,
+    month: months.find(m => m.monthlyCost >= threshold)?.month ?? null,
+  }))
+
+  return { months, thresholdCrossings, totalSpend: cumulative }
+}
+
+// Budget Solver
+export type SolverVariable = 'transactions' | 'model' | 'rag' | 'features'
+
+export const SOLVER_VARIABLES: { id: SolverVariable; label: string }[] = [
+  { id: 'transactions', label: 'Transactions Per Month' },
+  { id: 'model', label: 'Model' },
+  { id: 'rag', label: 'RAG Queries' },
+  { id: 'features', label: 'Drop Optional Features (Memory, DB, Tools, Reflection)' },
+]
+
+const OPTIONAL_FEATURES: { label: string; active: (s: EstimatorState) => boolean; drop: (s: EstimatorState) => EstimatorState }[] = [
+  { label: 'Memory', active: s => s.memory_ops > 0, drop: s => ({ ...s, memory_ops: 0 }) },
+  { label: 'DB Queries', active: s => s.db_queries > 0, drop: s => ({ ...s, db_queries: 0 }) },
+  { label: 'Tools', active: s => s.tool_calls > 0, drop: s => ({ ...s, tool_calls: 0 }) },
+  { label: 'Reflection', active: s => s.reflection_passes > 0, drop: s => ({ ...s, reflection_passes: 0 }) },
+]
+
+export interface SolverSolution {
+  state: EstimatorState
+  monthlyCost: number
+  droppedFeatures: string[]
+  distance: number
+}
+
+// How far a candidate strays from the reference (extracted) workflow: lost
+// volume weighs most, then dropped features, tier changes and RAG cuts
+function solutionDistance(candidate: EstimatorState, reference: EstimatorState, droppedFeatures: string[]) {
+  const volumeShortfall = Math.max(0, 1 - monthlyTransactions(candidate) / Math.max(1, monthlyTransactions(reference)))
+  const tierSteps = Math.abs(
+    TIER_ORDER.indexOf(getModelPricing(candidate.model_id).tier) - TIER_ORDER.indexOf(getModelPricing(reference.model_id).tier)
+  )
+  const modelChanged = candidate.model_id !== reference.model_id ? 1 : 0
+  const ragCut = reference.rag_queries > 0 ? Math.max(0, 1 - candidate.rag_queries / reference.rag_queries) : 0
+
+  return volumeShortfall * 2 + droppedFeatures.length * 0.3 + tierSteps * 0.5 + modelChanged * 0.1 + ragCut * 0.5
+}
+
+export function BudgetSolver(
+  state: EstimatorState,
+  reference: EstimatorState,
+  budget: number,
+  free: SolverVariable[],
+  limit = 10,
+): SolverSolution[] {
+  const models = free.includes('model') ? MODEL_CATALOG.map(m => m.id) : [state.model_id]
+
+  const q = state.rag_queries
+  const ragOptions = free.includes('rag') && q > 0
+    ? Array.from(new Set([q, Math.ceil(q * 0.75), Math.ceil(q / 2), Math.ceil(q / 4), 0]))
+    : [q]
+
+  // Every subset of the currently active optional features
+  const droppable = free.includes('features') ? OPTIONAL_FEATURES.filter(f => f.active(state)) : []
+  const featureSubsets = Array.from({ length: 1 << droppable.length }, (_, mask) =>
+    droppable.filter((_, i) => mask & (1 << i))
+  )
+
+  const solutions: SolverSolution[] = []
+
+  for (const modelId of models) {
+    // Moving to another single model replaces the routing mix
+    const routing = modelId === state.model_id ? state.routing : { ...state.routing, enabled: false }
+    for (const ragQueries of ragOptions) {
+      for (const dropped of featureSubsets) {
+        let candidate = dropped.reduce((s, f) => f.drop(s), { ...state, model_id: modelId, routing, rag_queries: ragQueries })
+
+        if (free.includes('transactions') && candidate.channels.length > 0) {
+          // Highest volume the budget covers
+          const base = candidate
+          const maxVolume = searchVolume(
+            volume => CostCalculator(withMonthlyVolume(base, volume)).totalMonthly <= budget,
+            monthlyTransactions(base),
+          )
+          if (maxVolume === null) continue
+          candidate = withMonthlyVolume(candidate, maxVolume)
+        }
+
+        const monthlyCost = CostCalculator(candidate).totalMonthly
+        if (monthlyCost > budget) continue
+        if (validateEstimate(candidate).some(issue => issue.severity === 'error')) continue
+
+        const droppedFeatures = dropped.map(f => f.label)
+        solutions.push({
+          state: candidate,
+          monthlyCost,
+          droppedFeatures,
+          distance: solutionDistance(candidate, reference, droppedFeatures),
+        })
+      }
+    }
+  }
+
+  return solutions
+    .sort((a, b) => a.distance - b.distance || monthlyTransactions(b.state) - monthlyTransactions(a.state))
+    .slice(0, limit)
+}
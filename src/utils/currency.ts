@@ -0,0 +1,84 @@
+/**
+ * Display Currencies
+ *
+ * The estimator prices everything in USD (see pricingCatalog.ts) and converts
+ * only for display and export. Rates are a local table the user can edit -
+ * there is deliberately no live feed, so a proposal always shows the rate it
+ * was converted at.
+ *
+ * @example
+ * ```tsx
+ * import { DEFAULT_CURRENCY_SETTINGS, formatMoney } from '@/utils/currency'
+ *
+ * formatMoney(1234.5, { ...DEFAULT_CURRENCY_SETTINGS, code: 'EUR' }) // "1.061,67 €"
+ * ```
+ */
+
+export const BASE_CURRENCY = 'USD'
+
+export const EXCHANGE_RATES_AS_OF = '2026-10-01'
+
+export interface ExchangeRate {
+  code: string
+  name: string
+  // Locale used for digit grouping, decimal separator and symbol placement
+  locale: string
+  // Units of this currency per 1 USD
+  per_usd: number
+}
+
+export const DEFAULT_EXCHANGE_RATES: ExchangeRate[] = [
+  { code: 'USD', name: 'US Dollar', locale: 'en-US', per_usd: 1 },
+  { code: 'EUR', name: 'Euro', locale: 'de-DE', per_usd: 0.86 },
+  { code: 'GBP', name: 'British Pound', locale: 'en-GB', per_usd: 0.75 },
+  { code: 'INR', name: 'Indian Rupee', locale: 'en-IN', per_usd: 88.5 },
+  { code: 'JPY', name: 'Japanese Yen', locale: 'ja-JP', per_usd: 151 },
+  { code: 'CAD', name: 'Canadian Dollar', locale: 'en-CA', per_usd: 1.40 },
+  { code: 'AUD', name: 'Australian Dollar', locale: 'en-AU', per_usd: 1.53 },
+]
+
+// Selected currency plus the (possibly edited) rate table it is looked up in
+export interface CurrencySettings {
+  code: string
+  rates: ExchangeRate[]
+}
+
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  code: BASE_CURRENCY,
+  rates: DEFAULT_EXCHANGE_RATES,
+}
+
+/**
+ * Rate entry for the selected currency, falling back to USD at par
+ */
+export function getExchangeRate(settings: CurrencySettings): ExchangeRate {
+  return (
+    settings.rates.find(r => r.code === settings.code) ||
+    DEFAULT_EXCHANGE_RATES.find(r => r.code === BASE_CURRENCY)!
+  )
+}
+
+export function convertFromUsd(amount: number, settings: CurrencySettings): number {
+  return amount * getExchangeRate(settings).per_usd
+}
+
+/**
+ * Convert an amount entered in the display currency back to USD
+ */
+export function convertToUsd(amount: number, settings: CurrencySettings): number {
+  const rate = getExchangeRate(settings).per_usd
+  return rate > 0 ? amount / rate : amount
+}
+
+/**
+ * Format a USD amount in the selected currency. Fraction digits default to
+ * the currency's own (2 for EUR, 0 for JPY); pass options to override.
+ */
+export function formatMoney(amountUsd: number, settings: CurrencySettings, options: Intl.NumberFormatOptions = {}): string {
+  const rate = getExchangeRate(settings)
+  return new Intl.NumberFormat(rate.locale, {
+    style: 'currency',
+    currency: rate.code,
+    ...options,
+  }).format(amountUsd * rate.per_usd)
+}
@@ -0,0 +1,392 @@
+/**
+ * Model Pricing Catalog
+ *
+ * List prices for the models the cost estimator can quote. All prices are
+ * USD per million tokens. When a provider changes prices, update the entry
+ * here and bump PRICING_CATALOG_VERSION - the UI shows the version next to
+ * every estimate so quotes can be traced back to the price list they used.
+ *
+ * @example
+ * ```tsx
+ * import { getModelPricing, resolveModelId } from '@/utils/pricingCatalog'
+ *
+ * const model = getModelPricing(resolveModelId('Claude Sonnet'))
+ * console.log(model.input, model.output)
+ * ```
+ */
+
+export const PRICING_CATALOG_VERSION = '2026-10-01'
+
+export type ModelTier = 'budget' | 'standard' | 'premium'
+
+// Image sizes quoted per model: roughly 512px, 1024px and 2048px on the long edge
+export type ImageResolution = 'low' | 'standard' | 'high'
+
+export interface ModelPricing {
+  id: string
+  name: string
+  provider: string
+  tier: ModelTier
+  // USD per million tokens
+  input: number
+  output: number
+  cached_input: number
+  // Price of writing a prompt prefix into the cache (Anthropic charges a
+  // premium; providers with automatic caching bill misses at the input rate)
+  cache_write: number
+  // Fraction taken off list price for asynchronous batch jobs (0 = no batch API)
+  batch_discount: number
+  // Token limits
+  context_window: number
+  max_output_tokens: number
+  // Default per-key rate limits at the provider's standard paid tier
+  rpm: number
+  tpm: number
+  // Approximate tokens per minute one provisioned-throughput unit sustains
+  // (0 = provider sells no provisioned capacity for this model). Planning
+  // figures only - confirm sizing with the provider before buying.
+  provisioned_unit_tpm: number
+  // Typical latency at the provider's public endpoint: time to first token
+  // (including any hidden reasoning) and streaming speed
+  ttft_ms: number
+  output_tokens_per_second: number
+  // Multimodal input, billed as input tokens. Images and PDF pages use the
+  // text input rate (null = the model cannot read them natively); audio uses
+  // audio_input (0 tokens per minute = no native audio, transcribe first).
+  image_tokens: Record<ImageResolution, number> | null
+  pdf_page_tokens: number | null
+  audio_tokens_per_minute: number
+  audio_input: number
+  // Lowercase phrases used to match free-text model recommendations
+  aliases: string[]
+}
+
+export const MODEL_CATALOG: ModelPricing[] = [
+  // Budget
+  {
+    id: 'deepseek-r1',
+    name: 'DeepSeek R1',
+    provider: 'DeepSeek',
+    tier: 'budget',
+    input: 0.55,
+    output: 2.19,
+    cached_input: 0.14,
+    cache_write: 0.55,
+    batch_discount: 0,
+    context_window: 128_000,
+    max_output_tokens: 32_768,
+    rpm: 500,
+    tpm: 1_000_000,
+    provisioned_unit_tpm: 0,
+    ttft_ms: 4_000,
+    output_tokens_per_second: 25,
+    image_tokens: null,
+    pdf_page_tokens: null,
+    audio_tokens_per_minute: 0,
+    audio_input: 0,
+    aliases: ['deepseek r1', 'deepseek-r1', 'deepseek reasoner'],
+  },
+  {
+    id: 'deepseek-v3',
+    name: 'DeepSeek V3',
+    provider: 'DeepSeek',
+    tier: 'budget',
+    input: 0.27,
+    output: 1.10,
+    cached_input: 0.07,
+    cache_write: 0.27,
+    batch_discount: 0,
+    context_window: 128_000,
+    max_output_tokens: 8_192,
+    rpm: 500,
+    tpm: 1_000_000,
+    provisioned_unit_tpm: 0,
+    ttft_ms: 1_500,
+    output_tokens_per_second: 30,
+    image_tokens: null,
+    pdf_page_tokens: null,
+    audio_tokens_per_minute: 0,
+    audio_input: 0,
+    aliases: ['deepseek v3', 'deepseek-v3', 'deepseek chat'],
+  },
+  {
+    id: 'gpt-4o-mini',
+    name: 'GPT-4o mini',
+    provider: 'OpenAI',
+    tier: 'budget',
+    input: 0.15,
+    output: 0.60,
+    cached_input: 0.075,
+    cache_write: 0.15,
+    batch_discount: 0.5,
+    context_window: 128_000,
+    max_output_tokens: 16_384,
+    rpm: 5_000,
+    tpm: 4_000_000,
+    provisioned_unit_tpm: 37_000,
+    ttft_ms: 400,
+    output_tokens_per_second: 80,
+    image_tokens: { low: 2_833, standard: 25_501, high: 36_834 },
+    pdf_page_tokens: 26_000,
+    audio_tokens_per_minute: 0,
+    audio_input: 0,
+    aliases: ['gpt-4o mini', 'gpt-4o-mini', '4o mini', '4o-mini'],
+  },
+  {
+    id: 'gemini-2.0-flash',
+    name: 'Gemini 2.0 Flash',
+    provider: 'Google',
+    tier: 'budget',
+    input: 0.10,
+    output: 0.40,
+    cached_input: 0.025,
+    cache_write: 0.10,
+    batch_discount: 0.5,
+    context_window: 1_048_576,
+    max_output_tokens: 8_192,
+    rpm: 2_000,
+    tpm: 4_000_000,
+    provisioned_unit_tpm: 400_000,
+    ttft_ms: 350,
+    output_tokens_per_second: 200,
+    image_tokens: { low: 258, standard: 1_032, high: 2_322 },
+    pdf_page_tokens: 258,
+    audio_tokens_per_minute: 1_920,
+    audio_input: 0.70,
+    aliases: ['gemini flash', 'gemini 2.0 flash', 'gemini-2.0-flash'],
+  },
+  {
+    id: 'claude-3-5-haiku',
+    name: 'Claude 3.5 Haiku',
+    provider: 'Anthropic',
+    tier: 'budget',
+    input: 0.80,
+    output: 4.00,
+    cached_input: 0.08,
+    cache_write: 1.00,
+    batch_discount: 0.5,
+    context_window: 200_000,
+    max_output_tokens: 8_192,
+    rpm: 4_000,
+    tpm: 400_000,
+    provisioned_unit_tpm: 200_000,
+    ttft_ms: 700,
+    output_tokens_per_second: 65,
+    image_tokens: { low: 350, standard: 1_398, high: 1_600 },
+    pdf_page_tokens: 2_000,
+    audio_tokens_per_minute: 0,
+    audio_input: 0,
+    aliases: ['haiku', 'claude haiku', 'claude 3.5 haiku'],
+  },
+
+  // Standard
+  {
+    id: 'claude-sonnet-4',
+    name: 'Claude Sonnet 4',
+    provider: 'Anthropic',
+    tier: 'standard',
+    input: 3.00,
+    output: 15.00,
+    cached_input: 0.30,
+    cache_write: 3.75,
+    batch_discount: 0.5,
+    context_window: 200_000,
+    max_output_tokens: 64_000,
+    rpm: 4_000,
+    tpm: 2_000_000,
+    provisioned_unit_tpm: 100_000,
+    ttft_ms: 1_200,
+    output_tokens_per_second: 55,
+    image_tokens: { low: 350, standard: 1_398, high: 1_600 },
+    pdf_page_tokens: 2_000,
+    audio_tokens_per_minute: 0,
+    audio_input: 0,
+    aliases: ['sonnet', 'claude sonnet', 'claude sonnet 4'],
+  },
+  {
+    id: 'gpt-4o',
+    name: 'GPT-4o',
+    provider: 'OpenAI',
+    tier: 'standard',
+    input: 2.50,
+    output: 10.00,
+    cached_input: 1.25,
+    cache_write: 2.50,
+    batch_discount: 0.5,
+    context_window: 128_000,
+    max_output_tokens: 16_384,
+    rpm: 5_000,
+    tpm: 800_000,
+    provisioned_unit_tpm: 2_500,
+    ttft_ms: 450,
+    output_tokens_per_second: 90,
+    image_tokens: { low: 85, standard: 765, high: 1_105 },
+    pdf_page_tokens: 1_300,
+    audio_tokens_per_minute: 0,
+    audio_input: 0,
+    aliases: ['gpt-4o', 'gpt-4', 'gpt4'],
+  },
+  {
+    id: 'gemini-2.5-pro',
+    name: 'Gemini 2.5 Pro',
+    provider: 'Google',
+    tier: 'standard',
+    input: 1.25,
+    output: 10.00,
+    cached_input: 0.31,
+    cache_write: 1.25,
+    batch_discount: 0.5,
+    context_window: 1_048_576,
+    max_output_tokens: 65_536,
+    rpm: 1_000,
+    tpm: 2_000_000,
+    provisioned_unit_tpm: 50_000,
+    ttft_ms: 2_000,
+    output_tokens_per_second: 140,
+    image_tokens: { low: 258, standard: 1_032, high: 2_322 },
+    pdf_page_tokens: 258,
+    audio_tokens_per_minute: 1_920,
+    audio_input: 1.25,
+    aliases: ['gemini pro', 'gemini 2.5 pro', 'gemini-2.5-pro', 'gemini'],
+  },
+
+  // Premium
+  {
+    id: 'claude-opus-4',
+    name: 'Claude Opus 4',
+    provider: 'Anthropic',
+    tier: 'premium',
+    input: 15.00,
+    output: 75.00,
+    cached_input: 1.50,
+    cache_write: 18.75,
+    batch_discount: 0.5,
+    context_window: 200_000,
+    max_output_tokens: 32_000,
+    rpm: 4_000,
+    tpm: 2_000_000,
+    provisioned_unit_tpm: 25_000,
+    ttft_ms: 1_800,
+    output_tokens_per_second: 40,
+    image_tokens: { low: 350, standard: 1_398, high: 1_600 },
+    pdf_page_tokens: 2_000,
+    audio_tokens_per_minute: 0,
+    audio_input: 0,
+    aliases: ['opus', 'claude opus', 'claude opus 4'],
+  },
+  {
+    id: 'o1',
+    name: 'OpenAI o1',
+    provider: 'OpenAI',
+    tier: 'premium',
+    input: 15.00,
+    output: 60.00,
+    cached_input: 7.50,
+    cache_write: 15.00,
+    batch_discount: 0.5,
+    context_window: 200_000,
+    max_output_tokens: 100_000,
+    rpm: 5_000,
+    tpm: 800_000,
+    provisioned_unit_tpm: 3_000,
+    ttft_ms: 8_000,
+    output_tokens_per_second: 80,
+    image_tokens: { low: 85, standard: 765, high: 1_105 },
+    pdf_page_tokens: 1_300,
+    audio_tokens_per_minute: 0,
+    audio_input: 0,
+    aliases: ['openai o1', 'o1'],
+  },
+]
+
+// Fallbacks for inputs a model cannot read natively: PDFs are sent as their
+// extracted text layer (scanned pages need OCR), audio goes through a
+// speech-to-text service and the transcript is sent as text
+export const PDF_TEXT_TOKENS_PER_PAGE = 500
+export const TRANSCRIPTION_PER_MINUTE = 0.006
+export const TRANSCRIPT_TOKENS_PER_MINUTE = 200
+
+// Model picked when only a tier is known (e.g. "Budget" from the discovery chat)
+export const TIER_DEFAULT_MODEL: Record<ModelTier, string> = {
+  budget: 'deepseek-r1',
+  standard: 'claude-sonnet-4',
+  premium: 'claude-opus-4',
+}
+
+export const DEFAULT_MODEL_ID = TIER_DEFAULT_MODEL.standard
+
+/**
+ * Look up a catalog entry by id, falling back to the default model
+ */
+export function getModelPricing(modelId: string): ModelPricing {
+  return (
+    MODEL_CATALOG.find(m => m.id === modelId) ||
+    MODEL_CATALOG.find(m => m.id === DEFAULT_MODEL_ID)!
+  )
+}
+
+/**
+ * Map a free-text model recommendation (e.g. "Claude Sonnet (strong reasoning)"
+ * or "Premium tier") to a catalog model id.
+ *
+ * The longest matching alias wins so "GPT-4o mini" resolves to gpt-4o-mini
+ * rather than gpt-4o. Falls back to tier keywords, then the default model.
+ */
+export function resolveModelId(recommended?: string | null): string {
+  if (!recommended) return DEFAULT_MODEL_ID
+
+  const text = recommended.toLowerCase()
+
+  if (MODEL_CATALOG.some(m => m.id === text)) return text
+
+  let best: { id: string; length: number } | null = null
+  for (const model of MODEL_CATALOG) {
+    for (const alias of model.aliases) {
+      if (text.includes(alias) && (!best || alias.length > best.length)) {
+        best = { id: model.id, length: alias.length }
+      }
+    }
+  }
+  if (best) return best.id
+
+  if (text.includes('budget')) return TIER_DEFAULT_MODEL.budget
+  if (text.includes('premium')) return TIER_DEFAULT_MODEL.premium
+  return DEFAULT_MODEL_ID
+}
+
+/**
+ * Catalog entries for one tier, in catalog order
+ */
+export function getModelsByTier(tier: ModelTier): ModelPricing[] {
+  return MODEL_CATALOG.filter(m => m.tier === tier)
+}
+
+// Embedding models for RAG ingestion and query embedding
+
+export interface EmbeddingModelPricing {
+  id: string
+  name: string
+  provider: string
+  // USD per million tokens embedded
+  input: number
+  dimensions: number
+}
+
+export const EMBEDDING_CATALOG: EmbeddingModelPricing[] = [
+  { id: 'text-embedding-3-small', name: 'text-embedding-3-small', provider: 'OpenAI', input: 0.02, dimensions: 1536 },
+  { id: 'text-embedding-3-large', name: 'text-embedding-3-large', provider: 'OpenAI', input: 0.13, dimensions: 3072 },
+  { id: 'voyage-3', name: 'Voyage 3', provider: 'Voyage AI', input: 0.06, dimensions: 1024 },
+  { id: 'embed-english-v3', name: 'Embed English v3', provider: 'Cohere', input: 0.10, dimensions: 1024 },
+]
+
+export const DEFAULT_EMBEDDING_MODEL_ID = 'text-embedding-3-small'
+
+// Managed vector database storage, USD per GB-month
+export const VECTOR_STORAGE_PER_GB_MONTH = 0.33
+
+export function getEmbeddingPricing(modelId: string): EmbeddingModelPricing {
+  return (
+    EMBEDDING_CATALOG.find(m => m.id === modelId) ||
+    EMBEDDING_CATALOG.find(m => m.id === DEFAULT_EMBEDDING_MODEL_ID)!
+  )
+}